@@ -23,7 +23,9 @@ const BROWSER_CONFIGS = {
     manifestChanges: {
       manifest_version: 2,
       background: {
-        scripts: ["background/service-worker.js"]
+        scripts: ["background/service-worker.js"],
+        // The bundle shares chunks with the options page, so it has to load as a module
+        type: "module"
       },
       browser_action: {
         default_popup: "options.html",
@@ -62,10 +64,17 @@ async function copyDir(src, dest) {
   }
 }
 
+// Permissions the background code depends on, whatever public/manifest.json lists
+const REQUIRED_PERMISSIONS = ['alarms', 'scripting']
+
 async function modifyManifestForBrowser(browser, outputDir) {
   const manifestPath = join(outputDir, 'manifest.json')
   const manifestContent = await readFile(manifestPath, 'utf8')
   const manifest = JSON.parse(manifestContent)
+  manifest.permissions = [
+    ...manifest.permissions,
+    ...REQUIRED_PERMISSIONS.filter(p => !manifest.permissions.includes(p))
+  ]
 
   const config = BROWSER_CONFIGS[browser]
 
@@ -79,7 +88,8 @@ async function modifyManifestForBrowser(browser, outputDir) {
       author: manifest.author,
       permissions: [...manifest.permissions.filter(p => p !== 'background'), ...manifest.host_permissions],
       background: {
-        scripts: ["background/service-worker.js"]
+        scripts: ["background/service-worker.js"],
+        type: "module"
       },
       content_scripts: manifest.content_scripts.map(cs => ({
         ...cs,
@@ -96,10 +106,12 @@ async function modifyManifestForBrowser(browser, outputDir) {
       },
       options_page: "options.html",
       icons: manifest.icons,
-      web_accessible_resources: ["icons/*", "injected/inject.js"],
+      web_accessible_resources: ["icons/*"],
       browser_specific_settings: {
         gecko: {
-          id: "leetship@extension.local"
+          id: "leetship@extension.local",
+          // scripting.executeScript into the page context needs 128
+          strict_min_version: "128.0"
         }
       }
     }
@@ -155,11 +167,6 @@ async function buildForBrowser(browser) {
     await mkdir(outputStylesDir, { recursive: true })
     await copyDir(stylesDir, outputStylesDir)
 
-    // Copy Firefox-specific background script
-    if (browser === 'firefox') {
-      await copyFile(join(rootDir, 'src', 'background', 'firefox-background.js'), join(outputDir, 'background', 'service-worker.js'))
-    }
-
     // Copy and modify manifest
     await copyFile(join(publicDir, 'manifest.json'), join(outputDir, 'manifest.json'))
     await modifyManifestForBrowser(browser, outputDir)
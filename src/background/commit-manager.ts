@@ -1,8 +1,40 @@
 import { storage } from '../lib/storage'
-import { githubAPI } from '../lib/github/api'
+import {
+  CommitFile,
+  decodeBase64Content,
+  GitHubAPIError,
+  githubAPI,
+  GitTree,
+  isEmptyRepositoryError,
+} from '../lib/github/api'
 import { leetcodeAPI } from '../lib/leetcode/api'
-import { TemplateEngine } from '../lib/templates'
-import { QueuedCommit, LeetCodeSubmission, ProblemDetails } from '../lib/types'
+import {
+  FilenameTemplates,
+  parseFrontMatter,
+  SolutionFrontMatter,
+  TemplateEngine,
+} from '../lib/templates'
+import {
+  findLanguage,
+  findLanguageByExtension,
+  getLanguageExtension,
+} from '../lib/leetcode/languages'
+import { archiveStatementImages } from './statement-images'
+import {
+  deliverPullRequest,
+  getPullRequestBranch,
+  preparePullRequestBranch,
+} from './pull-request-delivery'
+import {
+  ExtensionConfig,
+  QueuedCommit,
+  LeetCodeSubmission,
+  ProblemDetails,
+  SolutionIndexEntry,
+  SolutionsIndex,
+  SolutionStrategy,
+  SolutionVariant,
+} from '../lib/types'
 
 export class CommitManager {
   async processCommit(queuedCommit: QueuedCommit): Promise<void> {
@@ -19,8 +51,6 @@ export class CommitManager {
 
     const problemDetails = await this.getProblemDetails(submission.titleSlug)
 
-    const files = await this.generateFiles(submission, problemDetails)
-
     const commitMessage = TemplateEngine.generateCommitMessage(
       config.templates.commitMessage,
       variables
@@ -34,141 +64,341 @@ export class CommitManager {
       throw new Error('No repository configured')
     }
 
-    const results = []
+    // With pull request delivery the commit goes onto a leetship/… branch. Its
+    // solutions are the base branch's plus those pending on that branch.
+    const pullRequestTarget =
+      config.settings.deliveryMode === 'pull-request'
+        ? await preparePullRequestBranch(
+            owner,
+            repo,
+            branch,
+            getPullRequestBranch(config.settings.pullRequestGrouping, variables)
+          )
+        : null
+    const targetBranch = pullRequestTarget?.head || branch
 
-    for (const file of files) {
-      const fullPath = `${folderPath}/${file.name}`
+    if (pullRequestTarget?.fresh) {
+      await this.settlePullRequestBranches(owner, repo, branch, pullRequestTarget.head)
+    }
 
-      try {
-        const result = await githubAPI.createOrUpdateFile(
+    const solutions = await this.getSolutions(owner, repo, branch, pullRequestTarget?.head)
+    const existing = solutions.find(solution => solution.path === folderPath)
+
+    const { filename, variants, replaced } = this.resolveSolutionFile(
+      config.settings.solutionStrategy,
+      config.templates,
+      submission,
+      existing
+    )
+
+    const { problem, assets } = await this.archiveImages(config, problemDetails)
+
+    const files = TemplateEngine.generateFiles(config, submission, filename, variants, problem)
+
+    const commitFiles: CommitFile[] = [
+      ...files.map(file => ({ path: `${folderPath}/${file.name}`, content: file.content })),
+      ...assets.map(asset => ({ ...asset, path: `${folderPath}/${asset.path}` })),
+    ]
+
+    const indexEntry: SolutionIndexEntry = {
+      id: variables.id,
+      title: submission.title,
+      slug: variables.slug,
+      difficulty: submission.difficulty,
+      lang: variables.lang,
+      runtime: submission.runtime,
+      memory: submission.memory,
+      submittedAt: variables.timestamp,
+      path: folderPath,
+      variants,
+    }
+
+    // Every pull request would rewrite the root README from its own base and
+    // conflict with the others, so it is only maintained with direct commits
+    const readmeContent = pullRequestTarget
+      ? null
+      : await this.buildRepositoryReadme(
           owner,
           repo,
-          fullPath,
-          file.content,
-          commitMessage,
-          branch
+          branch,
+          config.templates.rootReadme,
+          solutions,
+          indexEntry
         )
 
-        results.push(result)
-        await new Promise(resolve => setTimeout(resolve, 500))
-      } catch (error) {
-        console.error(`Failed to commit ${fullPath}:`, error)
-        throw error
+    if (readmeContent) {
+      commitFiles.push({ path: 'README.md', content: readmeContent })
+    }
+
+    await githubAPI.commitFiles(
+      owner,
+      repo,
+      commitFiles,
+      commitMessage,
+      targetBranch,
+      replaced.map(file => `${folderPath}/${file}`)
+    )
+
+    if (pullRequestTarget) {
+      await deliverPullRequest(owner, repo, branch, pullRequestTarget, submission, variables, {
+        grouping: config.settings.pullRequestGrouping,
+        commitMessage,
+        autoMerge: config.settings.autoMerge,
+      })
+    }
+
+    await storage.upsertSolutionIndexEntry(
+      this.getIndexKey(owner, repo, branch),
+      indexEntry,
+      pullRequestTarget?.head
+    )
+
+    // Only used for the template preview, so failing to save it must not fail the commit
+    await storage
+      .setLastSubmission({ submission, problem: problemDetails, savedAt: Date.now() })
+      .catch(error => console.warn('Failed to save last submission:', error))
+  }
+
+  /**
+   * Pick the solution file name for this submission according to the
+   * configured strategy and work out which stored variants it keeps or replaces.
+   * A name already used by another language, or by the README, gets a numbered
+   * suffix instead of overwriting that file.
+   */
+  private resolveSolutionFile(
+    strategy: SolutionStrategy,
+    templates: FilenameTemplates,
+    submission: LeetCodeSubmission,
+    existing?: SolutionIndexEntry
+  ): { filename: string; variants: SolutionVariant[]; replaced: string[] } {
+    const previous = existing ? this.getVariants(existing) : []
+    const variables = TemplateEngine.getVariables(submission)
+
+    const collides = (file: string) =>
+      file.toLowerCase() === 'readme.md' ||
+      (strategy !== 'overwrite' &&
+        previous.some(
+          old =>
+            old.file === file &&
+            (strategy === 'attempts' || !this.isSameLanguage(old.lang, variables.lang))
+        ))
+
+    let filename = TemplateEngine.generateFilename(templates, variables)
+    let attempt = Math.max(2, previous.length + 1)
+    while (collides(filename)) {
+      filename = TemplateEngine.generateFilename(templates, variables, attempt++)
+    }
+
+    const variant: SolutionVariant = {
+      file: filename,
+      lang: submission.language.toLowerCase(),
+      runtime: submission.runtime,
+      memory: submission.memory,
+      submittedAt: new Date(submission.timestamp).toISOString(),
+    }
+
+    if (strategy === 'overwrite') {
+      return {
+        filename,
+        variants: [variant],
+        replaced: previous.map(old => old.file).filter(file => file !== filename),
       }
     }
 
-    await this.updateRepositoryReadme(owner, repo, branch, commitMessage)
+    return {
+      filename,
+      variants: [...previous.filter(old => old.file !== filename), variant],
+      replaced: [],
+    }
   }
 
-  private async getProblemDetails(titleSlug: string): Promise<ProblemDetails | undefined> {
-    try {
-      return await leetcodeAPI.getProblemDetails(titleSlug)
-    } catch (error) {
-      return undefined
+  private isSameLanguage(a: string, b: string): boolean {
+    return (findLanguage(a)?.slug ?? a.toLowerCase()) === (findLanguage(b)?.slug ?? b.toLowerCase())
+  }
+
+  private getVariants(entry: SolutionIndexEntry): SolutionVariant[] {
+    if (entry.variants && entry.variants.length > 0) {
+      return entry.variants
     }
+
+    // Entries written before variants were tracked describe a single solution file
+    return [
+      {
+        file: `solution.${getLanguageExtension(entry.lang) || 'txt'}`,
+        lang: entry.lang,
+        runtime: entry.runtime,
+        memory: entry.memory,
+        submittedAt: entry.submittedAt,
+      },
+    ]
   }
 
-  private async generateFiles(
-    submission: LeetCodeSubmission,
-    problemDetails?: ProblemDetails
-  ): Promise<Array<{ name: string; content: string }>> {
+  /**
+   * Crawl the configured repository and replace the local solutions index
+   */
+  async rebuildSolutionsIndex(): Promise<SolutionsIndex> {
     const config = await storage.getDecryptedConfig()
-    const files: Array<{ name: string; content: string }> = []
-    const variables = TemplateEngine.getVariables(submission, problemDetails)
 
-    const filename = TemplateEngine.generateFilename(submission.language)
-    files.push({
-      name: filename,
-      content: submission.code,
-    })
+    if (!config.github?.repository) {
+      throw new Error('No repository configured')
+    }
 
-    const problemStatement = config.settings.includeProblemStatement
-      ? problemDetails?.content
-      : undefined
+    const { username: owner, repository: repo, branch } = config.github
+    return await this.crawlSolutionsIndex(owner, repo, branch)
+  }
 
-    const readmeContent = TemplateEngine.generateReadme(
-      config.templates.readme,
-      variables,
-      submission.code,
-      problemStatement
-    )
+  private getIndexKey(owner: string, repo: string, branch: string): string {
+    return `${owner}/${repo}@${branch}`
+  }
 
-    files.push({
-      name: 'README.md',
-      content: readmeContent,
-    })
+  private async crawlSolutionsIndex(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<SolutionsIndex> {
+    const repository = this.getIndexKey(owner, repo, branch)
+    const entries = await this.getAllSolutions(owner, repo, branch)
+    const previous = await storage.getSolutionsIndex()
+
+    // Open pull requests are not part of the crawled branch yet
+    const index: SolutionsIndex = {
+      repository,
+      updatedAt: Date.now(),
+      entries,
+      pending: previous?.repository === repository ? previous.pending : undefined,
+    }
 
-    return files
+    await storage.setSolutionsIndex(index)
+    return index
   }
 
-  private async updateRepositoryReadme(
+  /**
+   * Solutions on `branch`, or on the pull request branch `head` into it when
+   * one is given
+   */
+  private async getSolutions(
     owner: string,
     repo: string,
     branch: string,
-    _commitMessage: string
-  ): Promise<void> {
-    try {
-      // const config = await storage.getDecryptedConfig()
+    head?: string
+  ): Promise<SolutionIndexEntry[]> {
+    const stored = await storage.getSolutionsIndex()
+    const index =
+      stored && stored.repository === this.getIndexKey(owner, repo, branch)
+        ? stored
+        : await this.crawlSolutionsIndex(owner, repo, branch)
+
+    const pending = (head && index.pending?.[head]) || []
+    return [
+      ...index.entries.filter(entry => !pending.some(delivered => delivered.path === entry.path)),
+      ...pending,
+    ]
+  }
 
-      const existingReadme = await githubAPI.getFile(owner, repo, 'README.md', branch)
+  /**
+   * Move the pending entries of merged pull requests to the base branch
+   * entries and drop those of pull requests closed without merging. Runs when
+   * `head` was just created or reset, so whatever is pending for it is gone
+   * from the branch.
+   */
+  private async settlePullRequestBranches(
+    owner: string,
+    repo: string,
+    branch: string,
+    head: string
+  ): Promise<void> {
+    const index = await storage.getSolutionsIndex()
+    if (!index?.pending || index.repository !== this.getIndexKey(owner, repo, branch)) {
+      return
+    }
 
-      let readmeContent = existingReadme
-        ? atob(existingReadme.content)
-        : this.generateInitialReadme()
+    let entries = index.entries
+    const pending: Record<string, SolutionIndexEntry[]> = {}
 
-      readmeContent = await this.updateReadmeWithNewSubmission(readmeContent, owner, repo, branch)
+    for (const [name, delivered] of Object.entries(index.pending)) {
+      if (await githubAPI.findPullRequest(owner, repo, name, branch)) {
+        pending[name] = delivered
+        continue
+      }
 
-      await githubAPI.createOrUpdateFile(
-        owner,
-        repo,
-        'README.md',
-        readmeContent,
-        `docs: update README with new submission`,
-        branch
-      )
-    } catch (error) {
-      console.error('Failed to update repository README:', error)
+      const previous = await githubAPI.findLastClosedPullRequest(owner, repo, name, branch)
+      if (previous?.merged_at) {
+        entries = [
+          ...entries.filter(entry => !delivered.some(merged => merged.path === entry.path)),
+          ...delivered,
+        ]
+      } else if (!previous && name !== head) {
+        // Committed but the pull request is not open yet
+        pending[name] = delivered
+      }
     }
-  }
-
-  private generateInitialReadme(): string {
-    return `# LeetCode Solutions
 
-This repository contains my LeetCode solutions, automatically synced by LeetShip.
+    await storage.setSolutionsIndex({ ...index, updatedAt: Date.now(), entries, pending })
+  }
 
-## Statistics
+  /**
+   * Archive the images of a problem statement that goes into the README and
+   * point the statement at the archived copies
+   */
+  private async archiveImages(
+    config: ExtensionConfig,
+    problemDetails?: ProblemDetails
+  ): Promise<{ problem?: ProblemDetails; assets: CommitFile[] }> {
+    const { includeProblemStatement, statementImageLimit } = config.settings
 
-| Difficulty | Count |
-|------------|-------|
-| Easy | 0 |
-| Medium | 0 |
-| Hard | 0 |
-| **Total** | **0** |
+    if (!includeProblemStatement || !problemDetails?.content || statementImageLimit <= 0) {
+      return { problem: problemDetails, assets: [] }
+    }
 
-## Latest Submissions
+    const archived = await archiveStatementImages(
+      problemDetails.content,
+      statementImageLimit * 1024
+    )
 
-<!-- LeetShip:latest-submissions -->
-<!-- /LeetShip:latest-submissions -->
+    return {
+      problem: { ...problemDetails, content: archived.content },
+      assets: archived.files,
+    }
+  }
 
-## All Solutions
+  private async getProblemDetails(titleSlug: string): Promise<ProblemDetails | undefined> {
+    try {
+      return await leetcodeAPI.getProblemDetails(titleSlug)
+    } catch (error) {
+      return undefined
+    }
+  }
 
-<!-- LeetShip:solutions-table -->
-<!-- /LeetShip:solutions-table -->
+  private async buildRepositoryReadme(
+    owner: string,
+    repo: string,
+    branch: string,
+    layout: string,
+    solutions: SolutionIndexEntry[],
+    newSolution: SolutionIndexEntry
+  ): Promise<string | null> {
+    try {
+      const existingReadme = await githubAPI.getFile(owner, repo, 'README.md', branch)
 
----
+      // The layout only shapes a new README, an existing one keeps its own text
+      const readmeContent = existingReadme ? decodeBase64Content(existingReadme.content) : layout
 
-*Generated with [LeetShip](https://github.com/leetship/extension) - Automatically commit your accepted LeetCode submissions to GitHub*
-`
+      return this.updateReadmeWithNewSubmission(readmeContent, solutions, newSolution)
+    } catch (error) {
+      console.error('Failed to update repository README:', error)
+      return null
+    }
   }
 
-  private async updateReadmeWithNewSubmission(
+  private updateReadmeWithNewSubmission(
     readmeContent: string,
-    owner: string,
-    repo: string,
-    branch: string
-  ): Promise<string> {
+    existingSolutions: SolutionIndexEntry[],
+    newSolution: SolutionIndexEntry
+  ): string {
     try {
-      const solutions = await this.getAllSolutions(owner, repo, branch)
+      // The new submission is not on the branch yet, so it replaces any stale entry
+      const solutions = existingSolutions.filter(solution => solution.path !== newSolution.path)
+      solutions.push(newSolution)
       const stats = this.calculateStats(solutions)
       const latestSubmissions = solutions
         .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
@@ -187,88 +417,155 @@ This repository contains my LeetCode solutions, automatically synced by LeetShip
     }
   }
 
-  private async getAllSolutions(owner: string, repo: string, branch: string): Promise<any[]> {
-    const solutions: any[] = []
+  /**
+   * Find every LeetShip problem README in the branch, whatever folder layout
+   * produced it, and read its front matter. Failures to read the branch are
+   * thrown rather than answered with a partial list, which would be saved as
+   * the index and rewrite the root README without the solutions it missed. A
+   * README whose front matter cannot be read is not a LeetShip solution and
+   * is skipped.
+   */
+  private async getAllSolutions(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<SolutionIndexEntry[]> {
+    const solutions: SolutionIndexEntry[] = []
 
-    try {
-      const difficulties = ['easy', 'medium', 'hard']
+    const { templates } = await storage.getConfig()
+    const tree = await this.getBranchTree(owner, repo, branch)
 
-      for (const difficulty of difficulties) {
-        try {
-          const response = await fetch(
-            `https://api.github.com/repos/${owner}/${repo}/contents/${difficulty}?ref=${branch}`,
-            {
-              headers: await this.getGitHubHeaders(),
-            }
-          )
+    if (tree.truncated) {
+      console.warn('Repository tree is truncated, some solutions may be missing')
+    }
+
+    const readmes = tree.tree.filter(
+      entry =>
+        entry.type === 'blob' && /(^|\/)README\.md$/.test(entry.path) && entry.path !== 'README.md'
+    )
+
+    for (const readme of readmes) {
+      const content = await githubAPI.getBlobContent(owner, repo, readme.sha)
+
+      try {
+        const frontMatter = parseFrontMatter(content)
+        if (!frontMatter) continue
+
+        const path = readme.path.slice(0, readme.path.lastIndexOf('/'))
+        const entry: SolutionIndexEntry = {
+          id: frontMatter.id,
+          title: frontMatter.title,
+          slug: frontMatter.slug,
+          difficulty: this.normalizeDifficulty(frontMatter.difficulty),
+          lang: frontMatter.lang,
+          runtime: frontMatter.runtime,
+          memory: frontMatter.memory,
+          submittedAt: frontMatter.submittedAt,
+          path,
+        }
 
-          if (response.ok) {
-            const folders = await response.json()
-
-            for (const folder of folders) {
-              if (folder.type === 'dir') {
-                const readmePath = `${difficulty}/${folder.name}/README.md`
-                const readme = await githubAPI.getFile(owner, repo, readmePath, branch)
-
-                if (readme) {
-                  const content = atob(readme.content)
-                  const frontMatter = this.parseFrontMatter(content)
-
-                  if (frontMatter) {
-                    solutions.push({
-                      ...frontMatter,
-                      difficulty: difficulty.charAt(0).toUpperCase() + difficulty.slice(1),
-                      path: `${difficulty}/${folder.name}`,
-                    })
-                  }
-                }
-              }
-            }
-          }
-        } catch (error) {}
+        entry.variants = this.getVariantsFromTree(entry, frontMatter, templates, tree.tree)
+        solutions.push(entry)
+      } catch (error) {
+        console.warn(`Skipping ${readme.path}, its front matter cannot be read:`, error)
       }
-    } catch (error) {
-      console.error('Failed to get all solutions:', error)
     }
 
     return solutions
   }
 
-  private async getGitHubHeaders(): Promise<Record<string, string>> {
-    const config = await storage.getDecryptedConfig()
-    return {
-      Authorization: `Bearer ${config.github?.accessToken}`,
-      Accept: 'application/vnd.github.v3+json',
-    }
-  }
+  /**
+   * The recursive tree of the branch. A repository without commits has no
+   * solutions yet, and a branch that does not exist yet starts from the
+   * default branch on its first commit.
+   */
+  private async getBranchTree(owner: string, repo: string, branch: string): Promise<GitTree> {
+    try {
+      return await githubAPI.getTree(owner, repo, branch, true)
+    } catch (error) {
+      if (isEmptyRepositoryError(error)) {
+        return { sha: '', truncated: false, tree: [] }
+      }
 
-  private parseFrontMatter(content: string): any {
-    const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
+      if (error instanceof GitHubAPIError && error.status === 404) {
+        const { default_branch: defaultBranch } = await githubAPI.getRepository(owner, repo)
+        if (defaultBranch !== branch && !(await githubAPI.getRef(owner, repo, branch))) {
+          return await githubAPI.getTree(owner, repo, defaultBranch, true)
+        }
+      }
 
-    if (!frontMatterMatch) {
-      return null
+      throw error
     }
+  }
 
-    try {
-      const frontMatterText = frontMatterMatch[1]
-      const data: any = {}
-
-      frontMatterText.split('\n').forEach(line => {
-        const match = line.match(/^(\w+):\s*(.+)$/)
-        if (match) {
-          const [, key, value] = match
-          data[key] = value.replace(/^["']|["']$/g, '')
+  /**
+   * Recover the stored variants of a problem from the solution files in its
+   * folder. Only the latest one is described by the front matter, older ones
+   * keep their language but lose runtime and memory.
+   */
+  private getVariantsFromTree(
+    entry: SolutionIndexEntry,
+    frontMatter: SolutionFrontMatter,
+    templates: FilenameTemplates,
+    tree: Array<{ path: string; type: string }>
+  ): SolutionVariant[] {
+    const latestFile = TemplateEngine.generateFilename(
+      templates,
+      TemplateEngine.getVariables({
+        id: frontMatter.id,
+        title: frontMatter.title,
+        titleSlug: frontMatter.slug,
+        difficulty: entry.difficulty,
+        tags: frontMatter.tags,
+        link: frontMatter.link,
+        runtime: frontMatter.runtime,
+        memory: frontMatter.memory,
+        language: frontMatter.lang,
+        timestamp: frontMatter.submittedAt,
+        code: '',
+        status: 'Accepted',
+      })
+    )
+
+    return tree
+      .filter(item => item.type === 'blob' && item.path.startsWith(`${entry.path}/`))
+      .map(item => item.path.slice(entry.path.length + 1))
+      .filter(file => !file.includes('/') && file !== 'README.md')
+      .flatMap(file => {
+        if (file === latestFile) {
+          return [
+            {
+              file,
+              lang: entry.lang,
+              runtime: entry.runtime,
+              memory: entry.memory,
+              submittedAt: entry.submittedAt,
+            },
+          ]
         }
+
+        const language = findLanguageByExtension(file.slice(file.lastIndexOf('.') + 1))
+        return language
+          ? [
+              {
+                file,
+                lang: language.name.toLowerCase(),
+                runtime: 'N/A',
+                memory: 'N/A',
+                submittedAt: '',
+              },
+            ]
+          : []
       })
+  }
 
-      return data
-    } catch (error) {
-      console.error('Failed to parse front matter:', error)
-      return null
-    }
+  private normalizeDifficulty(difficulty: string): SolutionIndexEntry['difficulty'] {
+    const normalized = difficulty.toLowerCase()
+    return (normalized.charAt(0).toUpperCase() +
+      normalized.slice(1)) as SolutionIndexEntry['difficulty']
   }
 
-  private calculateStats(solutions: any[]): {
+  private calculateStats(solutions: SolutionIndexEntry[]): {
     easy: number
     medium: number
     hard: number
@@ -301,7 +598,7 @@ This repository contains my LeetCode solutions, automatically synced by LeetShip
     )
   }
 
-  private updateLatestSubmissionsSection(content: string, latest: any[]): string {
+  private updateLatestSubmissionsSection(content: string, latest: SolutionIndexEntry[]): string {
     const latestList = latest
       .map(
         solution =>
@@ -315,7 +612,7 @@ This repository contains my LeetCode solutions, automatically synced by LeetShip
     )
   }
 
-  private updateSolutionsTable(content: string, solutions: any[]): string {
+  private updateSolutionsTable(content: string, solutions: SolutionIndexEntry[]): string {
     const tableHeader = `| # | Title | Difficulty | Language | Runtime | Memory | Date |
 |---|-------|------------|----------|---------|--------|------|`
 
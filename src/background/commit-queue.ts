@@ -0,0 +1,173 @@
+import { getBrowser } from '../lib/browser'
+import { storage } from '../lib/storage'
+import { GitHubAPIError } from '../lib/github/api'
+import { TemplateError } from '../lib/templates'
+import { getSubmissionKey } from '../lib/leetcode/submission-key'
+import { LeetCodeSubmission, QueuedCommit } from '../lib/types'
+import { CommitManager } from './commit-manager'
+
+export const QUEUE_ALARM = 'LeetShip:process-queue'
+
+const MAX_RETRIES = 8
+const BASE_DELAY_MS = 30 * 1000
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000
+
+export type FailureKind = 'retryable' | 'permanent'
+
+export interface QueueRunResult {
+  committed: LeetCodeSubmission[]
+  deadLettered: QueuedCommit[]
+}
+
+/**
+ * Decide whether a failed commit is worth retrying. Network errors, server
+ * errors, rate limits and expired credentials can recover on their own; a
+ * missing repository or a rejected payload will not.
+ */
+export function classifyCommitError(error: unknown): FailureKind {
+  if (error instanceof GitHubAPIError) {
+    if (error.rateLimited || error.status >= 500 || error.status === 401) {
+      return 'retryable'
+    }
+
+    // A concurrent push moved the branch head between reading and updating it
+    if (error.status === 422 && /fast.forward/i.test(error.message)) {
+      return 'retryable'
+    }
+
+    if (error.status === 404 || error.status === 422 || error.status === 403) {
+      return 'permanent'
+    }
+
+    return 'retryable'
+  }
+
+  // A broken template fails the same way until the user fixes it
+  if (error instanceof TemplateError) {
+    return 'permanent'
+  }
+
+  if (error instanceof Error && error.message === 'No repository configured') {
+    return 'permanent'
+  }
+
+  // fetch rejects with a TypeError when the network is unavailable
+  return 'retryable'
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed, the other
+ * half random, so retries of many items do not fire at the same moment
+ */
+export function getBackoffDelay(retryCount: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1))
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+/**
+ * Persistent commit queue. Items survive service worker restarts in storage
+ * and are picked up by an alarm at their next attempt time.
+ */
+export class CommitQueue {
+  private browser = getBrowser()
+  private running = false
+
+  constructor(private commitManager: CommitManager) {}
+
+  /**
+   * Record a failed commit: keep it for a later attempt, or dead-letter it
+   * when the failure is permanent or the retry budget is spent
+   */
+  async recordFailure(commit: QueuedCommit, error: unknown): Promise<'queued' | 'dead-letter'> {
+    const lastError = error instanceof Error ? error.message : 'Unknown error'
+    const retryCount = commit.retryCount + 1
+    const kind = classifyCommitError(error)
+    const queued = (await storage.getCommitQueue()).some(item => item.id === commit.id)
+
+    if (kind === 'permanent' || retryCount >= MAX_RETRIES) {
+      if (!queued) {
+        await storage.addToCommitQueue(commit)
+      }
+      await storage.moveToDeadLetters(
+        { ...commit, retryCount, lastError },
+        kind === 'permanent' ? 'permanent' : 'exhausted'
+      )
+      return 'dead-letter'
+    }
+
+    // A rate-limited request is not retried before the limit resets
+    const retryAt = error instanceof GitHubAPIError ? error.retryAt || 0 : 0
+    const updates = {
+      retryCount,
+      lastError,
+      nextAttemptAt: Math.max(Date.now() + getBackoffDelay(retryCount), retryAt),
+    }
+
+    if (queued) {
+      await storage.updateCommitInQueue(commit.id, updates)
+    } else {
+      await storage.addToCommitQueue({ ...commit, ...updates })
+    }
+
+    return 'queued'
+  }
+
+  /**
+   * Process every item that is due. With force, items waiting for their
+   * backoff delay are attempted right away as well.
+   */
+  async process(force = false): Promise<QueueRunResult> {
+    const result: QueueRunResult = { committed: [], deadLettered: [] }
+
+    if (this.running) {
+      return result
+    }
+
+    this.running = true
+
+    try {
+      const queue = await storage.getCommitQueue()
+      const now = Date.now()
+
+      for (const queuedCommit of queue) {
+        if (!force && queuedCommit.nextAttemptAt && queuedCommit.nextAttemptAt > now) {
+          continue
+        }
+
+        try {
+          await this.commitManager.processCommit(queuedCommit)
+          await storage.removeFromCommitQueue(queuedCommit.id)
+          await storage.markSubmissionProcessed(getSubmissionKey(queuedCommit.submission))
+          result.committed.push(queuedCommit.submission)
+        } catch (error) {
+          if ((await this.recordFailure(queuedCommit, error)) === 'dead-letter') {
+            result.deadLettered.push(queuedCommit)
+          }
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000))
+      }
+    } finally {
+      this.running = false
+      await this.schedule()
+    }
+
+    return result
+  }
+
+  /**
+   * Point the queue alarm at the earliest pending attempt
+   */
+  async schedule(): Promise<void> {
+    const config = await storage.getConfig()
+    const queue = await storage.getCommitQueue()
+
+    if (queue.length === 0 || !config.settings.autoRetry) {
+      await this.browser.alarms.clear(QUEUE_ALARM)
+      return
+    }
+
+    const nextAttemptAt = Math.min(...queue.map(item => item.nextAttemptAt || Date.now()))
+    this.browser.alarms.create(QUEUE_ALARM, { when: Math.max(nextAttemptAt, Date.now() + 1000) })
+  }
+}
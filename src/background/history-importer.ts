@@ -0,0 +1,270 @@
+import { storage } from '../lib/storage'
+import { leetcodeAPI } from '../lib/leetcode/api'
+import { getSubmissionKey } from '../lib/leetcode/submission-key'
+import { ImportCandidate, ImportState } from '../lib/types'
+
+const PAGE_SIZE = 20
+const REQUEST_DELAY_MS = 1500
+const MAX_ATTEMPTS = 3
+
+/**
+ * Imports every accepted LeetCode submission into the commit queue.
+ *
+ * The job runs in two phases: it first pages through the submission list to
+ * collect accepted submissions, then fetches the code of each one, oldest
+ * first, and enqueues it. Progress is persisted after every step so the job
+ * resumes where it stopped when the background worker restarts.
+ */
+export class HistoryImporter {
+  private running = false
+  private cancelRequested = false
+
+  async getState(): Promise<ImportState | null> {
+    return await storage.getImportState()
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  /**
+   * Start a new import, or pick up an interrupted or failed one from the
+   * saved cursor
+   */
+  async start(): Promise<ImportState> {
+    if (this.running) {
+      throw new Error('An import is already running')
+    }
+
+    const existing = await storage.getImportState()
+    const state: ImportState =
+      existing && ['collecting', 'importing', 'failed'].includes(existing.status)
+        ? {
+            ...existing,
+            status:
+              existing.status === 'failed'
+                ? existing.failedPhase || (existing.pending.length > 0 ? 'importing' : 'collecting')
+                : existing.status,
+          }
+        : {
+            status: 'collecting',
+            offset: 0,
+            lastKey: null,
+            pending: [],
+            total: 0,
+            queued: 0,
+            skipped: 0,
+            startedAt: Date.now(),
+            updatedAt: Date.now(),
+          }
+
+    delete state.error
+    delete state.failedPhase
+    await this.saveState(state)
+    return state
+  }
+
+  async cancel(): Promise<void> {
+    const state = await storage.getImportState()
+
+    if (state && (state.status === 'collecting' || state.status === 'importing')) {
+      this.cancelRequested = true
+      await this.saveState({ ...state, status: 'cancelled' })
+    }
+  }
+
+  /**
+   * Whether a previous run was interrupted and should be resumed
+   */
+  async hasInterruptedRun(): Promise<boolean> {
+    const state = await storage.getImportState()
+    return !this.running && !!state && ['collecting', 'importing'].includes(state.status)
+  }
+
+  /**
+   * Drive the persisted import job until it completes, fails or is cancelled
+   */
+  async run(): Promise<ImportState | null> {
+    if (this.running) {
+      return await storage.getImportState()
+    }
+
+    this.running = true
+    this.cancelRequested = false
+
+    try {
+      let state = await storage.getImportState()
+
+      while (state && !this.cancelRequested) {
+        if (state.status === 'collecting') {
+          state = await this.collectPage(state)
+        } else if (state.status === 'importing') {
+          state = await this.importNext(state)
+        } else {
+          break
+        }
+      }
+
+      return await storage.getImportState()
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async collectPage(state: ImportState): Promise<ImportState> {
+    const page = await this.withRetries(state, () =>
+      leetcodeAPI.getSubmissionList(state.offset, PAGE_SIZE, state.lastKey)
+    )
+
+    if (!page) {
+      return await this.getCurrentState()
+    }
+
+    const accepted: ImportCandidate[] = page.submissions
+      .filter(submission => submission.statusDisplay === 'Accepted')
+      .map(submission => ({
+        id: submission.id,
+        titleSlug: submission.titleSlug,
+        lang: submission.lang,
+        timestamp: parseInt(submission.timestamp) * 1000,
+      }))
+
+    const pending = keepLatestPerLanguage([...state.pending, ...accepted])
+    const next: ImportState = {
+      ...state,
+      offset: state.offset + page.submissions.length,
+      lastKey: page.lastKey,
+      pending,
+      total: state.total + pending.length - state.pending.length,
+    }
+
+    if (!page.hasNext || page.submissions.length === 0) {
+      // Commit in chronological order so later solutions win
+      next.pending.sort((a, b) => a.timestamp - b.timestamp)
+      next.status = 'importing'
+    }
+
+    return await this.saveIfActive(next)
+  }
+
+  private async importNext(state: ImportState): Promise<ImportState> {
+    const [candidate, ...rest] = state.pending
+
+    if (!candidate) {
+      return await this.saveIfActive({ ...state, status: 'completed' })
+    }
+
+    const result = await this.withRetries(state, async () => ({
+      details: await leetcodeAPI.getSubmissionDetails(candidate.id),
+    }))
+
+    if (!result) {
+      return await this.getCurrentState()
+    }
+
+    const { details } = result
+    const next: ImportState = { ...state, pending: rest }
+
+    // Submissions that are no longer visible come back as null
+    if (!details) {
+      next.skipped++
+      return await this.saveIfActive(next)
+    }
+
+    // Built and validated like a live submission, so both land in the same folder
+    const submission = await leetcodeAPI.parseSubmissionFromDetails(details).catch(error => {
+      console.warn(`Skipping submission ${candidate.id}:`, error)
+      return null
+    })
+    const processed = await storage.getProcessedSubmissions()
+    const queue = await storage.getCommitQueue()
+    const queueId = `import-${candidate.id}`
+
+    if (
+      !submission ||
+      processed.has(getSubmissionKey(submission)) ||
+      queue.some(item => item.id === queueId)
+    ) {
+      next.skipped++
+    } else {
+      await storage.addToCommitQueue({
+        id: queueId,
+        submission,
+        timestamp: Date.now(),
+        retryCount: 0,
+      })
+      next.queued++
+    }
+
+    return await this.saveIfActive(next)
+  }
+
+  /**
+   * Run a throttled LeetCode request, retrying with a growing delay. Returns
+   * null once the attempts are exhausted, after marking the import as failed.
+   */
+  private async withRetries<T>(state: ImportState, request: () => Promise<T>): Promise<T | null> {
+    let lastError: unknown
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY_MS * attempt))
+
+      if (this.cancelRequested) {
+        return null
+      }
+
+      try {
+        return await request()
+      } catch (error) {
+        lastError = error
+      }
+    }
+
+    await this.saveIfActive({
+      ...state,
+      status: 'failed',
+      failedPhase: state.status === 'collecting' ? 'collecting' : 'importing',
+      error: lastError instanceof Error ? lastError.message : 'Unknown error',
+    })
+    return null
+  }
+
+  private async getCurrentState(): Promise<ImportState> {
+    return (await storage.getImportState()) as ImportState
+  }
+
+  /**
+   * Persist progress unless the job was cancelled in the meantime
+   */
+  private async saveIfActive(state: ImportState): Promise<ImportState> {
+    if (this.cancelRequested) {
+      return await this.getCurrentState()
+    }
+
+    await this.saveState(state)
+    return state
+  }
+
+  private async saveState(state: ImportState): Promise<void> {
+    await storage.setImportState({ ...state, updatedAt: Date.now() })
+  }
+}
+
+/**
+ * Only the latest accepted submission of each problem and language is
+ * committed, earlier ones would be overwritten right away. `lang` is the
+ * LeetCode language slug.
+ */
+function keepLatestPerLanguage(candidates: ImportCandidate[]): ImportCandidate[] {
+  const latest = new Map<string, ImportCandidate>()
+
+  for (const candidate of candidates) {
+    const key = `${candidate.titleSlug}:${candidate.lang}`
+    const current = latest.get(key)
+    if (!current || candidate.timestamp > current.timestamp) {
+      latest.set(key, candidate)
+    }
+  }
+
+  return [...latest.values()]
+}
@@ -0,0 +1,182 @@
+import {
+  githubAPI,
+  GitHubAPIError,
+  isEmptyRepositoryError,
+  MergeMethod,
+  PullRequest,
+} from '../lib/github/api'
+import { TemplateVariables } from '../lib/templates'
+import { LeetCodeSubmission, PullRequestGrouping } from '../lib/types'
+
+/**
+ * Pull request delivery for repositories whose branch is protected: each
+ * submission is committed to a `leetship/…` branch, and a pull request from
+ * that branch into the configured one lists the submissions it carries.
+ */
+
+const ENTRIES_START = '<!-- LeetShip:pull-request -->'
+const ENTRIES_END = '<!-- /LeetShip:pull-request -->'
+
+export interface PullRequestTarget {
+  /** Branch the submission is committed to */
+  head: string
+  /** Open pull request from `head`, null when one has to be opened */
+  pullRequest: PullRequest | null
+  /** `head` was just created or moved onto the base branch */
+  fresh: boolean
+}
+
+// Suffixed branch names tried before giving up, see preparePullRequestBranch
+const MAX_BRANCH_ATTEMPTS = 100
+
+/** `leetship/<date>` for daily batches, in local time, or `leetship/<slug>` per problem */
+export function getPullRequestBranch(
+  grouping: PullRequestGrouping,
+  variables: TemplateVariables
+): string {
+  if (grouping === 'problem') {
+    return `leetship/${variables.slug}`
+  }
+
+  const today = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `leetship/${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`
+}
+
+/**
+ * Pick the head branch for the next commit and make sure it exists. A branch
+ * without an open pull request is moved back onto the base branch only when
+ * its last pull request was merged with nothing committed since. A branch
+ * whose pull request was closed unmerged keeps its commits, and the next free
+ * `<branch>-2`, `<branch>-3`, … name is used instead. A branch that never had
+ * a pull request is kept as it is, as when opening the pull request failed,
+ * and the pull request is opened for it. Returns null when the base branch
+ * does not exist or has no commit yet; the submission is then committed
+ * directly.
+ */
+export async function preparePullRequestBranch(
+  owner: string,
+  repo: string,
+  base: string,
+  branch: string
+): Promise<PullRequestTarget | null> {
+  const baseRef = await githubAPI.getRef(owner, repo, base).catch(error => {
+    if (isEmptyRepositoryError(error)) return null
+    throw error
+  })
+  if (!baseRef) return null
+
+  for (let attempt = 1; attempt <= MAX_BRANCH_ATTEMPTS; attempt++) {
+    const head = attempt === 1 ? branch : `${branch}-${attempt}`
+
+    const pullRequest = await githubAPI.findPullRequest(owner, repo, head, base)
+    if (pullRequest) {
+      return { head, pullRequest, fresh: false }
+    }
+
+    const headRef = await githubAPI.getRef(owner, repo, head)
+    if (!headRef) {
+      await githubAPI.createBranch(owner, repo, head, baseRef.object.sha)
+      return { head, pullRequest: null, fresh: true }
+    }
+
+    const previous = await githubAPI.findLastClosedPullRequest(owner, repo, head, base)
+    if (!previous) {
+      return { head, pullRequest: null, fresh: false }
+    }
+
+    if (previous.merged_at && previous.head.sha === headRef.object.sha) {
+      await githubAPI.updateRef(owner, repo, head, baseRef.object.sha, true)
+      return { head, pullRequest: null, fresh: true }
+    }
+  }
+
+  throw new Error(`No free pull request branch left for ${branch}`)
+}
+
+/**
+ * Open the pull request for a delivered submission, or add the submission to
+ * the description of the one already open for its branch
+ */
+export async function deliverPullRequest(
+  owner: string,
+  repo: string,
+  base: string,
+  target: PullRequestTarget,
+  submission: LeetCodeSubmission,
+  variables: TemplateVariables,
+  options: { grouping: PullRequestGrouping; commitMessage: string; autoMerge: boolean }
+): Promise<PullRequest> {
+  const entry = `- [${variables.id}. ${submission.title}](${submission.link}) · ${submission.difficulty} · ${submission.language} · runtime ${submission.runtime}, memory ${submission.memory}`
+
+  if (target.pullRequest) {
+    return await githubAPI.updatePullRequest(owner, repo, target.pullRequest.number, {
+      body: addEntry(target.pullRequest.body || '', entry),
+    })
+  }
+
+  const pullRequest = await githubAPI.createPullRequest(owner, repo, {
+    title:
+      options.grouping === 'problem'
+        ? options.commitMessage.split('\n')[0]
+        : `LeetShip: accepted submissions of ${target.head.replace('leetship/', '')}`,
+    body: [
+      'Accepted LeetCode submissions delivered by [LeetShip](https://github.com/leetship/extension).',
+      '',
+      ENTRIES_START,
+      entry,
+      ENTRIES_END,
+    ].join('\n'),
+    head: target.head,
+    base,
+  })
+
+  if (options.autoMerge) {
+    await requestAutoMerge(owner, repo, pullRequest)
+  }
+
+  return pullRequest
+}
+
+function addEntry(body: string, entry: string): string {
+  const end = body.indexOf(ENTRIES_END)
+  // The description was edited on GitHub and lost its markers
+  if (end === -1) {
+    return `${body.trimEnd()}\n${entry}`
+  }
+  return `${body.slice(0, end)}${entry}\n${body.slice(end)}`
+}
+
+/**
+ * Enable auto-merge when the repository allows it. GitHub refuses auto-merge
+ * for a pull request that can already be merged, which is merged right away
+ * instead. Failures are only logged: the submission is delivered either way.
+ */
+async function requestAutoMerge(
+  owner: string,
+  repo: string,
+  pullRequest: PullRequest
+): Promise<void> {
+  try {
+    const repository = await githubAPI.getRepository(owner, repo)
+    if (!repository.allow_auto_merge) {
+      console.warn(`Auto-merge is not allowed in ${owner}/${repo}, leaving the pull request open`)
+      return
+    }
+
+    const method: MergeMethod = repository.allow_squash_merge
+      ? 'squash'
+      : repository.allow_merge_commit
+        ? 'merge'
+        : 'rebase'
+
+    try {
+      await githubAPI.enableAutoMerge(pullRequest.node_id, method)
+    } catch (error) {
+      if (!(error instanceof GitHubAPIError) || !/clean status/i.test(error.message)) throw error
+      await githubAPI.mergePullRequest(owner, repo, pullRequest.number, method)
+    }
+  } catch (error) {
+    console.warn(`Failed to enable auto-merge for ${pullRequest.html_url}:`, error)
+  }
+}
@@ -1,14 +1,47 @@
 import { getBrowser } from '../lib/browser'
 import { storage } from '../lib/storage'
-import { LeetCodeSubmission, QueuedCommit } from '../lib/types'
+import { DeviceFlowState, LeetCodeSubmission, QueuedCommit } from '../lib/types'
 import { CommitManager } from './commit-manager'
+import { CommitQueue, QUEUE_ALARM } from './commit-queue'
+import { HistoryImporter } from './history-importer'
 import { GitHubAuth } from '../lib/auth/github'
+import { DeviceCode, GitHubDeviceFlow } from '../lib/auth/device-flow'
 import { tokenManager } from '../lib/security/token-manager'
+import { getSubmissionKey } from '../lib/leetcode/submission-key'
+import { GitHubClient } from '../lib/github/client'
+import { githubTransport } from '../lib/github/transport'
+import { validateSubmission } from '../lib/leetcode/submission-schema'
+import { interceptSubmissions } from '../injected/inject'
+import type { Runtime } from 'webextension-polyfill'
+import {
+  AuthWithPATPayload,
+  ExtensionMessage,
+  ExtensionStatus,
+  MessageHandlers,
+  MessageOf,
+  MessageResponse,
+  MessageResponses,
+  MessageType,
+  UpsertFilePayload,
+} from '../lib/messages'
+
+// Content scripts run inside LeetCode pages and may only send these
+const CONTENT_SCRIPT_MESSAGES: MessageType[] = [
+  'SUBMISSION_ACCEPTED',
+  'INJECT_PAGE_SCRIPT',
+  'GET_SETTINGS',
+]
+const LEETCODE_URL = /^https:\/\/leetcode\.(com|cn)\//
 
 class LeetShipBackgroundService {
   private browser = getBrowser()
   private commitManager = new CommitManager()
+  private commitQueue = new CommitQueue(this.commitManager)
+  private historyImporter = new HistoryImporter()
   private githubAuth = new GitHubAuth()
+  private deviceFlow = new GitHubDeviceFlow()
+  private deviceFlowState: DeviceFlowState | null = null
+  private deviceFlowAbort: AbortController | null = null
   private processing = new Set<string>()
 
   constructor() {
@@ -27,43 +60,40 @@ class LeetShipBackgroundService {
       }
     })
 
+    this.browser.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === QUEUE_ALARM) {
+        this.processQueuedCommits()
+      }
+    })
+
     // Start background processes
     setTimeout(() => this.processQueuedCommits(), 2000)
+
+    if (await this.historyImporter.hasInterruptedRun()) {
+      this.runHistoryImport()
+    }
     
     // Start periodic security maintenance
     this.startSecurityMaintenance()
   }
 
   private async handleMessage(
-    message: any,
-    _sender: any,
-    sendResponse: (response?: any) => void
+    message: ExtensionMessage,
+    sender: Runtime.MessageSender,
+    sendResponse: (response: MessageResponse<MessageType>) => void
   ): Promise<void> {
+    if (!this.isTrustedSender(message, sender)) {
+      sendResponse({ error: 'Unauthorized sender' })
+      return
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(this.handlers, message?.type)) {
+      sendResponse({ error: 'Unknown message type' })
+      return
+    }
+
     try {
-      switch (message.type) {
-        case 'SUBMISSION_ACCEPTED':
-          await this.handleSubmissionAccepted(message.submission)
-          sendResponse({ success: true })
-          break
-
-        case 'GET_STATUS':
-          const status = await this.getExtensionStatus()
-          sendResponse(status)
-          break
-
-        case 'TEST_CONNECTION':
-          const testResult = await this.testGitHubConnection()
-          sendResponse(testResult)
-          break
-
-        case 'AUTH_WITH_PAT':
-          const authResult = await this.handleAuthWithPAT(message.payload)
-          sendResponse(authResult)
-          break
-
-        default:
-          sendResponse({ error: 'Unknown message type' })
-      }
+      sendResponse(await this.dispatch(message, sender))
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       sendResponse({ error: errorMessage })
@@ -71,6 +101,114 @@ class LeetShipBackgroundService {
     }
   }
 
+  private async dispatch<T extends MessageType>(
+    message: MessageOf<T>,
+    sender: Runtime.MessageSender
+  ): Promise<MessageResponses[T]> {
+    const handler = this.handlers[message.type] as MessageHandlers[T]
+    return await handler(message, sender)
+  }
+
+  private handlers: MessageHandlers = {
+    SUBMISSION_ACCEPTED: async message => {
+      await this.handleSubmissionAccepted(validateSubmission(message.submission))
+      return { success: true }
+    },
+
+    INJECT_PAGE_SCRIPT: async (message, sender) => {
+      await this.injectPageScript(message.nonce, sender)
+      return { success: true }
+    },
+
+    GET_STATUS: async () => await this.getExtensionStatus(),
+
+    GET_SETTINGS: async () => {
+      const { settings } = await storage.getConfig()
+      return { settings }
+    },
+
+    TEST_CONNECTION: async () => await this.testGitHubConnection(),
+
+    AUTH_WITH_PAT: async message => await this.handleAuthWithPAT(message.payload),
+
+    START_DEVICE_FLOW: async () => await this.startDeviceFlow(),
+
+    CANCEL_DEVICE_FLOW: async () => {
+      this.cancelDeviceFlow()
+      return { success: true }
+    },
+
+    GET_DEVICE_FLOW_STATUS: async () => ({
+      state: this.deviceFlowState,
+      available: this.deviceFlow.isConfigured(),
+    }),
+
+    UPSERT_FILE: async message => await this.handleUpsertFile(message.payload),
+
+    PROCESS_QUEUE: async () => {
+      const queueResult = await this.processQueuedCommits(true)
+      return { success: true, ...queueResult }
+    },
+
+    REBUILD_SOLUTIONS_INDEX: async () => {
+      const index = await this.commitManager.rebuildSolutionsIndex()
+      return { success: true, count: index.entries.length }
+    },
+
+    START_IMPORT: async () => {
+      const importState = await this.historyImporter.start()
+      this.runHistoryImport()
+      return { success: true, state: importState }
+    },
+
+    CANCEL_IMPORT: async () => {
+      await this.historyImporter.cancel()
+      return { success: true }
+    },
+
+    GET_IMPORT_STATUS: async () => ({
+      state: await this.historyImporter.getState(),
+      running: this.historyImporter.isRunning(),
+    }),
+  }
+
+  /**
+   * Run the network interceptor in the page context of the sending LeetCode
+   * frame. The nonce is passed as an argument, so page scripts never see it.
+   */
+  private async injectPageScript(nonce: string, sender: Runtime.MessageSender): Promise<void> {
+    if (sender.tab?.id === undefined || !/^[0-9a-f]{32}$/.test(nonce)) {
+      throw new Error('Invalid page script request')
+    }
+
+    await this.browser.scripting.executeScript({
+      target: { tabId: sender.tab.id, frameIds: [sender.frameId ?? 0] },
+      world: 'MAIN',
+      func: interceptSubmissions,
+      args: [nonce],
+    })
+  }
+
+  /**
+   * Extension pages may send any message. Content scripts are limited to the
+   * messages they need and must come from a LeetCode tab.
+   */
+  private isTrustedSender(message: ExtensionMessage, sender: Runtime.MessageSender): boolean {
+    if (sender.id !== this.browser.runtime.id) {
+      return false
+    }
+
+    if (sender.url?.startsWith(this.browser.runtime.getURL(''))) {
+      return true
+    }
+
+    return (
+      !!sender.tab &&
+      LEETCODE_URL.test(sender.url || '') &&
+      CONTENT_SCRIPT_MESSAGES.includes(message?.type)
+    )
+  }
+
   private async handleSubmissionAccepted(submissionData: LeetCodeSubmission): Promise<void> {
     const processingKey = `${submissionData.titleSlug}-${submissionData.language}-${Date.now()}`
     
@@ -89,10 +227,6 @@ class LeetShipBackgroundService {
 
       const config = await storage.getDecryptedConfig()
 
-      if (!this.isValidSubmission(submissionData)) {
-        throw new Error('Invalid submission data')
-      }
-
       if (config.settings?.skipDuplicates && await this.isDuplicateSubmission(submissionData)) {
         return
       }
@@ -133,97 +267,79 @@ class LeetShipBackgroundService {
       id: `retry-${Date.now()}`,
       submission,
       timestamp: Date.now(),
-      retryCount: 0,
-      lastError: error instanceof Error ? error.message : 'Unknown error'
+      retryCount: 0
     }
 
-    await storage.addToCommitQueue(queuedCommit)
+    await this.commitQueue.recordFailure(queuedCommit, error)
+    await this.commitQueue.schedule()
   }
 
-  private async processQueuedCommits(): Promise<void> {
+  private async processQueuedCommits(
+    force = false
+  ): Promise<{ committed: number; deadLettered: number }> {
     try {
-      const queue = await storage.getCommitQueue()
-      
       // Check authentication before processing queue
       const isAuthenticated = await this.validateAuthentication()
       if (!isAuthenticated) {
-        return
+        return { committed: 0, deadLettered: 0 }
       }
 
-      for (const queuedCommit of queue) {
-        if (this.processing.has(queuedCommit.id)) {
-          continue
-        }
-
-        if (queuedCommit.retryCount >= 3) {
-          await storage.removeFromCommitQueue(queuedCommit.id)
-          continue
-        }
-
-        this.processing.add(queuedCommit.id)
-
-        try {
-          await this.commitManager.processCommit(queuedCommit)
-          await storage.removeFromCommitQueue(queuedCommit.id)
-          await this.markSubmissionProcessed(queuedCommit.submission)
-
-        } catch (error) {
-          await storage.updateCommitInQueue(queuedCommit.id, {
-            retryCount: queuedCommit.retryCount + 1,
-            lastError: error instanceof Error ? error.message : 'Unknown error'
-          })
-          
-        } finally {
-          this.processing.delete(queuedCommit.id)
-        }
-
-        await new Promise(resolve => setTimeout(resolve, 1000))
+      const result = await this.commitQueue.process(force)
+
+      if (result.deadLettered.length > 0) {
+        this.showErrorNotification(
+          'Commits moved to failed list',
+          `${result.deadLettered.length} queued commit(s) could not be delivered. Retry them from the Queue tab.`
+        )
       }
+
+      return { committed: result.committed.length, deadLettered: result.deadLettered.length }
     } catch (error) {
-      // Silent fail for queue processing
+      console.error('Queue processing failed:', error)
+      return { committed: 0, deadLettered: 0 }
     }
   }
 
-  private isValidSubmission(submission: LeetCodeSubmission): boolean {
-    const required = ['title', 'titleSlug', 'code', 'language']
-    return required.every(field => submission[field as keyof LeetCodeSubmission])
+  private async runHistoryImport(): Promise<void> {
+    try {
+      const state = await this.historyImporter.run()
+
+      if (state?.status === 'completed') {
+        this.showNotification(
+          '📥 LeetShip: Import finished',
+          `${state.queued} submissions queued, ${state.skipped} skipped`
+        )
+        await this.processQueuedCommits()
+      } else if (state?.status === 'failed') {
+        this.showErrorNotification('Import failed', state.error || 'Unknown error')
+      }
+    } catch (error) {
+      console.error('History import failed:', error)
+    }
   }
 
   private async isDuplicateSubmission(submission: LeetCodeSubmission): Promise<boolean> {
     const processed = await storage.getProcessedSubmissions()
-    const key = this.generateSubmissionKey(submission)
+    const key = getSubmissionKey(submission)
     return processed.has(key)
   }
 
-  private generateSubmissionKey(submission: LeetCodeSubmission): string {
-    const codeLength = submission.code.length
-    const codeHash = this.simpleHash(submission.code)
-    return `${submission.titleSlug}-${submission.language}-${codeLength}-${codeHash}`
-  }
-
-  private simpleHash(str: string): string {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      hash = ((hash << 5) - hash + str.charCodeAt(i)) & 0xffffffff
-    }
-    return Math.abs(hash).toString(36)
-  }
-
   private async markSubmissionProcessed(submission: LeetCodeSubmission): Promise<void> {
-    const key = this.generateSubmissionKey(submission)
+    const key = getSubmissionKey(submission)
     await storage.markSubmissionProcessed(key)
   }
 
-  private async getExtensionStatus() {
+  private async getExtensionStatus(): Promise<ExtensionStatus> {
     const config = await storage.getDecryptedConfig()
     return {
       configured: !!config.github?.accessToken,
       processing: this.processing.size > 0,
-      queueSize: (await storage.getCommitQueue()).length
+      queueSize: (await storage.getCommitQueue()).length,
+      deadLetterCount: (await storage.getDeadLetters()).length
     }
   }
 
-  private async testGitHubConnection(): Promise<{ success: boolean; error?: string }> {
+  private async testGitHubConnection(): Promise<MessageResponses['TEST_CONNECTION']> {
     try {
       const config = await storage.getDecryptedConfig()
       
@@ -231,12 +347,7 @@ class LeetShipBackgroundService {
         return { success: false, error: 'No GitHub access token configured' }
       }
 
-      const response = await fetch('https://api.github.com/user', {
-        headers: {
-          'Authorization': `token ${config.github.accessToken}`,
-          'Accept': 'application/vnd.github.v3+json'
-        }
-      })
+      const response = await githubTransport.request('/user', { token: config.github.accessToken })
 
       if (!response.ok) {
         throw new Error(`GitHub API error: ${response.status}`)
@@ -251,12 +362,9 @@ class LeetShipBackgroundService {
     }
   }
 
-  private async handleAuthWithPAT(payload: {
-    token: string
-    owner?: string
-    repository: string
-    branch: string
-  }): Promise<{ success: boolean; error?: string; config?: any }> {
+  private async handleAuthWithPAT(
+    payload: AuthWithPATPayload
+  ): Promise<MessageResponses['AUTH_WITH_PAT']> {
     try {
       const config = await this.githubAuth.authenticateWithToken(payload.token)
 
@@ -281,6 +389,118 @@ class LeetShipBackgroundService {
     }
   }
 
+  /**
+   * Request a device code and poll for the token in the background. The
+   * options page shows the code and follows progress with GET_DEVICE_FLOW_STATUS.
+   */
+  private async startDeviceFlow(): Promise<MessageResponses['START_DEVICE_FLOW']> {
+    this.cancelDeviceFlow()
+
+    try {
+      const code = await this.deviceFlow.requestCode()
+      const abort = new AbortController()
+
+      this.deviceFlowAbort = abort
+      this.deviceFlowState = {
+        status: 'pending',
+        userCode: code.userCode,
+        verificationUri: code.verificationUri,
+        expiresAt: code.expiresAt,
+      }
+
+      this.completeDeviceFlow(code, abort)
+      return { success: true, state: this.deviceFlowState }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private async completeDeviceFlow(code: DeviceCode, abort: AbortController): Promise<void> {
+    try {
+      const tokens = await this.deviceFlow.pollForToken(code, abort.signal)
+      const config = await this.githubAuth.authenticateWithOAuth(tokens)
+      if (abort.signal.aborted) return
+
+      // Signing in again as the same user keeps the configured repository
+      const currentConfig = await storage.getDecryptedConfig()
+      const previous = currentConfig.github
+      if (previous && (!previous.username || previous.username === config.username)) {
+        config.repository = previous.repository
+        config.branch = previous.branch || config.branch
+      }
+
+      currentConfig.github = config
+      await storage.setConfig(currentConfig)
+
+      this.deviceFlowState = {
+        ...this.deviceFlowState!,
+        status: 'authorized',
+        username: config.username
+      }
+      this.showNotification(
+        '🔐 LeetShip: Signed in',
+        `Connected to GitHub as ${config.username || 'your account'}`
+      )
+    } catch (error) {
+      if (abort.signal.aborted) return
+
+      this.deviceFlowState = {
+        ...this.deviceFlowState!,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    } finally {
+      if (this.deviceFlowAbort === abort) {
+        this.deviceFlowAbort = null
+      }
+    }
+  }
+
+  private cancelDeviceFlow(): void {
+    if (!this.deviceFlowAbort) return
+
+    this.deviceFlowAbort.abort()
+    this.deviceFlowAbort = null
+    if (this.deviceFlowState?.status === 'pending') {
+      this.deviceFlowState = { ...this.deviceFlowState, status: 'cancelled' }
+    }
+  }
+
+  private async handleUpsertFile(
+    payload: UpsertFilePayload
+  ): Promise<MessageResponses['UPSERT_FILE']> {
+    try {
+      const config = await storage.getDecryptedConfig()
+
+      if (!config.github?.accessToken || !config.github.username || !config.github.repository) {
+        throw new Error('GitHub configuration incomplete. Please configure repository settings.')
+      }
+
+      const client = new GitHubClient(config.github)
+      const owner = config.github.username
+      const repo = config.github.repository
+      const branch = payload.branch || config.github.branch
+
+      const access = await client.validateRepoAccess(owner, repo, branch)
+      if (!access.accessible) {
+        throw new Error(access.error || 'Cannot access repository')
+      }
+
+      const sha = payload.sha || (await client.getFileSha(owner, repo, payload.path, branch))
+      const result = await client.upsertFile(owner, repo, { ...payload, branch, sha })
+
+      return { success: true, commitUrl: result.commitUrl }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
   private async handleFirstInstall(): Promise<void> {
     try {
       await this.browser.tabs.create({
@@ -0,0 +1,115 @@
+import { CommitFile } from '../lib/github/api'
+
+/** Folder, relative to the problem folder, that archived images are committed to */
+export const ASSETS_FOLDER = 'assets'
+
+// Only images served by LeetCode are downloaded, the statement is otherwise untrusted input
+const IMAGE_HOST = /^https:\/\/(assets\.leetcode\.(com|cn)|leetcode\.(com|cn))\//
+
+const IMAGE_SOURCE = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']+)\2/gi
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+}
+
+export interface ArchivedStatement {
+  /** Statement HTML with archived images pointing at `assets/…` */
+  content: string
+  /** Image files, with paths relative to the problem folder */
+  files: CommitFile[]
+}
+
+/**
+ * Download the images a problem statement references and rewrite their links
+ * to relative paths. Files are named after a hash of their content, so an
+ * image referenced twice is stored once. Images larger than `maxBytes`, or
+ * that fail to download, keep their original link.
+ */
+export async function archiveStatementImages(
+  html: string,
+  maxBytes: number
+): Promise<ArchivedStatement> {
+  const sources = new Set<string>()
+  for (const match of html.matchAll(IMAGE_SOURCE)) {
+    if (IMAGE_HOST.test(match[3])) sources.add(match[3])
+  }
+
+  const archived = new Map<string, string>()
+  const files = new Map<string, CommitFile>()
+
+  for (const source of sources) {
+    try {
+      const image = await downloadImage(source, maxBytes)
+      if (!image) continue
+
+      // The first copy of an image decides its file name
+      const file = files.get(image.hash) || {
+        path: `${ASSETS_FOLDER}/${image.hash}.${image.extension}`,
+        content: image.content,
+        encoding: 'base64',
+      }
+      files.set(image.hash, file)
+      archived.set(source, file.path)
+    } catch (error) {
+      console.warn(`Failed to archive statement image ${source}:`, error)
+    }
+  }
+
+  return {
+    content: html.replace(IMAGE_SOURCE, (tag, prefix, quote, source) =>
+      archived.has(source) ? `${prefix}${quote}${archived.get(source)}${quote}` : tag
+    ),
+    files: Array.from(files.values()),
+  }
+}
+
+async function downloadImage(
+  url: string,
+  maxBytes: number
+): Promise<{ hash: string; extension: string; content: string } | null> {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    throw new Error(`Image download failed: ${response.status}`)
+  }
+
+  const declaredSize = Number(response.headers.get('content-length'))
+  if (declaredSize > maxBytes) {
+    return null
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  if (bytes.byteLength > maxBytes) {
+    return null
+  }
+
+  const contentType = (response.headers.get('content-type') || '').split(';')[0].trim()
+  const extension = EXTENSIONS[contentType] || getUrlExtension(url)
+  if (!extension) {
+    return null
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+  const hash = Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('')
+
+  return { hash, extension, content: toBase64(bytes) }
+}
+
+function getUrlExtension(url: string): string | null {
+  const match = new URL(url).pathname.match(/\.(png|jpe?g|gif|svg|webp|bmp)$/i)
+  return match ? match[1].toLowerCase().replace('jpeg', 'jpg') : null
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Spreading a large array into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
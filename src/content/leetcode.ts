@@ -1,513 +1,276 @@
-import { LeetCodeSubmission } from '../lib/types'
-import { getLanguageExtension, getDisplayName } from '../lib/leetcode/language-mapping'
+import { ExtensionConfig, LeetCodeSubmission } from '../lib/types'
+import { ExtensionMessage, MessageResponse } from '../lib/messages'
+import { leetcodeAPI } from '../lib/leetcode/api'
+import { SubmissionJudge } from '../lib/leetcode/submission-check'
 
 /**
  * Production-ready LeetCode content script
  */
 
+/**
+ * Where each LeetCode UI shows the id of a judged submission. Only the judge
+ * decides whether a submission was accepted, the page is never read for that.
+ */
 interface LeetCodeInterface {
-  getSubmissionDetails(): Promise<LeetCodeSubmission | null>
-  isSubmissionSuccess(): boolean
-  getCode(): string | null
-  getProblemInfo(): { title: string; titleSlug: string; difficulty: string } | null
+  findSubmissionId(): string | null
 }
 
 class LeetCodeV1 implements LeetCodeInterface {
-  async getSubmissionDetails(): Promise<LeetCodeSubmission | null> {
-    if (!this.isSubmissionSuccess()) {
-      return null
-    }
-
-    const problemInfo = this.getProblemInfo()
-    const code = this.getCode()
-
-    if (!problemInfo || !code) {
-      return null
-    }
-
-    const language = this.getLanguage()
-    const stats = this.getStats()
-
-    return {
-      id: Date.now().toString(),
-      title: problemInfo.title,
-      titleSlug: problemInfo.titleSlug,
-      difficulty: problemInfo.difficulty as 'Easy' | 'Medium' | 'Hard',
-      language,
-      code,
-      status: 'Accepted',
-      runtime: stats.runtime || 'N/A',
-      memory: stats.memory || 'N/A',
-      timestamp: new Date().toISOString(),
-      link: window.location.href,
-      fileExtension: getLanguageExtension(language) || undefined,
-      tags: [],
-    }
+  findSubmissionId(): string | null {
+    return window.location.pathname.match(/\/submissions\/detail\/(\d+)/)?.[1] || null
   }
+}
 
-  isSubmissionSuccess(): boolean {
-    const successSelectors = [
-      '.fa-check-circle',
-      '.accepted',
-      'div[data-cy="accept-color"]',
-      '.text-green-500',
-      '.text-success',
-      '[class*="success"]',
-      '[class*="accepted"]',
-      'svg[data-icon="check"]',
-    ]
-
-    for (const selector of successSelectors) {
-      const elements = document.querySelectorAll(selector)
-
-      for (const element of elements) {
-        const text = element.textContent?.toLowerCase() || ''
-
-        if (text.includes('accepted') || text.includes('success') || text.includes('correct')) {
-          return true
-        }
-      }
-    }
-
-    return false
-  }
-
-  getCode(): string | null {
-    const codeSelectors = [
-      '.CodeMirror-code',
-      '.ace_content',
-      'textarea[name="code"]',
-      '.CodeMirror textarea',
-      '.ace_editor textarea',
-      '[data-cy="code-area"]',
-    ]
-
-    for (const selector of codeSelectors) {
-      const elements = document.querySelectorAll(selector)
-
-      for (const element of elements) {
-        let code = ''
-
-        if (element.tagName === 'TEXTAREA') {
-          code = (element as HTMLTextAreaElement).value
-        } else {
-          code = element.textContent || ''
-        }
-
-        code = code.trim()
-        if (code && code.length > 10) {
-          return code
-        }
-      }
+class LeetCodeV2 implements LeetCodeInterface {
+  findSubmissionId(): string | null {
+    const urlMatch = window.location.pathname.match(/\/submissions\/(\d+)/)
+    if (urlMatch) {
+      return urlMatch[1]
     }
 
-    return null
-  }
-
-  getProblemInfo(): { title: string; titleSlug: string; difficulty: string } | null {
-    const titleElement = document.querySelector('[data-cy="question-title"], h3')
-    if (!titleElement) return null
-
-    const title = titleElement.textContent?.trim() || ''
-    const titleSlug = this.extractTitleSlugFromUrl()
-    const difficulty = this.extractDifficulty()
-
-    return { title, titleSlug, difficulty }
+    const element = document.querySelector('[data-submission-id]')
+    const id = element?.getAttribute('data-submission-id')
+    return id && /^\d+$/.test(id) ? id : null
   }
+}
 
-  private getLanguage(): string {
-    const langSelectors = ['[data-cy="lang-select"] button span', '.ant-select-selection-item']
+const DEFAULT_JUDGE_TIMEOUT_SECONDS = 120
 
-    for (const selector of langSelectors) {
-      const element = document.querySelector(selector)
-      const text = element?.textContent?.trim()
-      if (text && text !== 'Select Language') {
-        return getDisplayName(text)
-      }
-    }
+type HintKind = 'SUBMITTED' | 'ACCEPTED' | 'ACCEPTED_RECENT'
 
-    return 'Unknown'
-  }
-
-  private getStats(): { runtime: string; memory: string } {
-    let runtime = 'N/A'
-    let memory = 'N/A'
+/**
+ * A submission id reported by the page interceptor. Everything in it comes
+ * from the page, so it only says which submission to fetch from LeetCode.
+ */
+interface SubmissionHint {
+  kind: HintKind
+  submissionId: string
+  titleSlug: string | null
+  /** Seconds since the epoch, as reported by the page */
+  timestamp: number | null
+  receivedAt: number
+}
 
-    const statsElements = document.querySelectorAll('[data-cy="runtime"], [data-cy="memory"]')
-    statsElements.forEach(el => {
-      const text = el.textContent || ''
-      const runtimeMatch = text.match(/(\d+)\s*ms/)
-      const memoryMatch = text.match(/([\d.]+)\s*MB/)
+/**
+ * Submission ids captured by the page-context network interceptor
+ * (injected/inject.ts): the id returned by the submit request, and the ids of
+ * accepted submissions in LeetCode's GraphQL responses. The submissions
+ * themselves are always judged and fetched from LeetCode by id.
+ */
+class InterceptedSubmissions {
+  private static readonly MAX_ENTRIES = 20
+  // LeetCode timestamps come from its servers, allow for some clock skew
+  private static readonly CLOCK_SKEW_MS = 60 * 1000
 
-      if (runtimeMatch) runtime = `${runtimeMatch[1]} ms`
-      if (memoryMatch) memory = `${memoryMatch[1]} MB`
-    })
+  private entries: SubmissionHint[] = []
+  private listeners = new Set<() => void>()
 
-    return { runtime, memory }
-  }
+  constructor() {
+    this.injectPageScript()
+  }
+
+  /**
+   * Wait for the id LeetCode assigned to a submission of the given problem
+   * made after `since`
+   */
+  async waitForSubmitted(titleSlug: string, since: number, timeoutMs = 10000) {
+    const entry = await this.waitFor(
+      () =>
+        this.entries.find(
+          entry =>
+            entry.kind === 'SUBMITTED' &&
+            entry.receivedAt >= since &&
+            (!entry.titleSlug || entry.titleSlug === titleSlug)
+        ) || null,
+      timeoutMs
+    )
 
-  private extractTitleSlugFromUrl(): string {
-    const match = window.location.pathname.match(/\/problems\/([^/]+)/)
-    return match ? match[1] : ''
+    return entry ? entry.submissionId : null
   }
 
-  private extractDifficulty(): string {
-    const difficultyElement = document.querySelector('[data-degree]')
-    if (difficultyElement) {
-      const degree = difficultyElement.getAttribute('data-degree')
-      switch (degree) {
-        case '1':
-          return 'Easy'
-        case '2':
-          return 'Medium'
-        case '3':
-          return 'Hard'
-      }
-    }
-
-    const text = document.body.textContent?.toLowerCase() || ''
-    if (text.includes('easy')) return 'Easy'
-    if (text.includes('medium')) return 'Medium'
-    if (text.includes('hard')) return 'Hard'
+  /**
+   * Wait for the id of a submission of the given problem made after `since`
+   * that the page reported as accepted. Resolves with null when nothing
+   * arrives before the timeout.
+   */
+  async waitForAccepted(titleSlug: string, since: number, timeoutMs = 20000) {
+    const entry = await this.waitFor(() => this.findAccepted(titleSlug, since), timeoutMs)
 
-    return 'Easy'
+    return entry ? entry.submissionId : null
   }
-}
 
-class LeetCodeV2 implements LeetCodeInterface {
-  async getSubmissionDetails(): Promise<LeetCodeSubmission | null> {
-    if (!this.isSubmissionSuccess()) {
+  /**
+   * Load a submission from LeetCode and return it when it is an accepted
+   * submission of the given problem made after `since`
+   */
+  async fetchSubmission(
+    submissionId: string,
+    titleSlug: string,
+    since: number
+  ): Promise<LeetCodeSubmission | null> {
+    try {
+      const details: unknown = await leetcodeAPI.getSubmissionDetails(submissionId)
+      return await this.fromDetails(details, titleSlug, since)
+    } catch (error) {
       return null
     }
-
-    const submissionId = await this.findSubmissionId()
-    if (submissionId) {
-      return await this.getSubmissionFromGraphQL(submissionId)
-    }
-
-    return await this.getSubmissionFromPage()
   }
 
-  isSubmissionSuccess(): boolean {
-    const successSelectors = [
-      '[data-e2e-locator="submission-result"]',
-      '[data-testid="submission-result"]',
-      '.submission-result',
-      '[class*="text-green"]',
-      '[class*="bg-green"]',
-      '.text-success',
-      '.bg-success',
-      '[aria-label*="Accepted"]',
-      '[title*="Accepted"]',
-      'svg[data-icon="check"]',
-      '.fa-check',
-      '.checkmark',
-    ]
-
-    for (const selector of successSelectors) {
-      const elements = document.querySelectorAll(selector)
-
-      for (const element of elements) {
-        const text = element.textContent?.toLowerCase() || ''
-        const ariaLabel = element.getAttribute('aria-label')?.toLowerCase() || ''
-        const title = element.getAttribute('title')?.toLowerCase() || ''
-        const className = element.className?.toLowerCase() || ''
-
-        const successKeywords = [
-          'accepted',
-          'success',
-          'correct',
-          'passed',
-          'great job',
-          'well done',
-        ]
-        const allText = `${text} ${ariaLabel} ${title} ${className}`.toLowerCase()
-
-        if (successKeywords.some(keyword => allText.includes(keyword))) {
-          return true
-        }
+  private waitFor(
+    find: () => SubmissionHint | null,
+    timeoutMs: number
+  ): Promise<SubmissionHint | null> {
+    return new Promise(resolve => {
+      const check = () => {
+        const match = find()
+        if (match) done(match)
       }
-    }
+      const done = (match: SubmissionHint | null) => {
+        clearTimeout(timer)
+        this.listeners.delete(check)
+        resolve(match)
+      }
+      const timer = setTimeout(() => done(null), timeoutMs)
 
-    const statusElements = document.querySelectorAll(
-      '[class*="status"], [class*="result"], [data-status]'
-    )
+      this.listeners.add(check)
+      check()
+    })
+  }
 
-    for (const element of statusElements) {
-      const text = element.textContent?.toLowerCase() || ''
-      const dataStatus = element.getAttribute('data-status')?.toLowerCase() || ''
+  /**
+   * Have the background worker run the interceptor in the page with a
+   * one-time nonce, and take the port of the first handshake carrying it.
+   * Page scripts see the handshake too, so the nonce only keeps out ports
+   * posted before the interceptor ran; what arrives on the port is parsed as
+   * untrusted hints.
+   */
+  private async injectPageScript() {
+    const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte =>
+      byte.toString(16).padStart(2, '0')
+    ).join('')
 
+    const onHandshake = (event: MessageEvent) => {
       if (
-        (text.includes('accepted') || dataStatus.includes('accepted')) &&
-        !text.includes('wrong') &&
-        !text.includes('error')
+        event.source !== window ||
+        event.data?.source !== 'LeetShip' ||
+        event.data.kind !== 'HANDSHAKE'
       ) {
-        return true
+        return
       }
-    }
 
-    return false
-  }
-
-  getCode(): string | null {
-    try {
-      const monaco = (window as any).monaco
-      if (monaco?.editor) {
-        const models = monaco.editor.getModels()
-        if (models && models.length > 0) {
-          const code = models[0].getValue()
-          return code
-        }
+      if (event.data.nonce !== nonce || !event.ports[0]) {
+        return
       }
-    } catch (e) {}
-
-    const codeSelectors = [
-      '.monaco-editor .view-lines',
-      '.monaco-editor textarea',
-      '.view-lines .view-line',
-      '.CodeMirror-code',
-      '.CodeMirror textarea',
-      '.code-editor textarea',
-      'textarea[data-mode]',
-      '[data-cy="code-area"]',
-      '.ace_content',
-      '[contenteditable="true"][data-mode]',
-      '.editor-content',
-    ]
-
-    for (const selector of codeSelectors) {
-      const elements = document.querySelectorAll(selector)
-
-      for (const element of elements) {
-        let code = ''
-
-        if (element.tagName === 'TEXTAREA') {
-          code = (element as HTMLTextAreaElement).value
-        } else if (element.hasAttribute('contenteditable')) {
-          code = element.textContent || ''
-        } else {
-          if (selector.includes('view-line')) {
-            const lines = Array.from(element.parentElement?.children || [])
-              .filter(line => line.classList.contains('view-line'))
-              .map(line => line.textContent || '')
-
-            if (lines.length > 0) {
-              code = lines.join('\n')
-            }
-          } else {
-            code = element.textContent || ''
-          }
-        }
 
-        code = code.trim()
-        if (code && code.length > 10) {
-          return code
-        }
-      }
+      // The nonce is single use, later handshakes are ignored
+      window.removeEventListener('message', onHandshake)
+      event.ports[0].onmessage = message => this.handleMessage(message.data)
     }
+    window.addEventListener('message', onHandshake)
 
-    const allTextareas = document.querySelectorAll('textarea')
-    for (const textarea of allTextareas) {
-      const code = textarea.value.trim()
-      if (
-        code &&
-        code.length > 20 &&
-        (code.includes('function') || code.includes('class') || code.includes('def'))
-      ) {
-        return code
+    try {
+      const message: ExtensionMessage = { type: 'INJECT_PAGE_SCRIPT', nonce }
+      const response: MessageResponse<'INJECT_PAGE_SCRIPT'> | undefined =
+        await chrome.runtime.sendMessage(message)
+      if (response?.success) {
+        return
       }
-    }
+    } catch (error) {}
 
-    return null
+    // Without the interceptor submissions are read from the page
+    window.removeEventListener('message', onHandshake)
   }
 
-  getProblemInfo(): { title: string; titleSlug: string; difficulty: string } | null {
-    const titleElement = document.querySelector('[data-cy="question-title"], h1, h2')
-    if (!titleElement) return null
-
-    const title = titleElement.textContent?.trim() || ''
-    const titleSlug = this.extractTitleSlugFromUrl()
-    const difficulty = this.extractDifficulty()
+  private handleMessage(data: unknown) {
+    const hint = parseHint(data)
+    if (!hint) {
+      return
+    }
 
-    return { title, titleSlug, difficulty }
+    this.entries.push({ ...hint, receivedAt: Date.now() })
+    this.entries = this.entries.slice(-InterceptedSubmissions.MAX_ENTRIES)
+    this.listeners.forEach(listener => listener())
   }
 
-  private async findSubmissionId(): Promise<string | null> {
-    const urlMatch = window.location.href.match(/submissions\/(\d+)/)
-    if (urlMatch) {
-      return urlMatch[1]
-    }
+  private findAccepted(titleSlug: string, since: number): SubmissionHint | null {
+    const candidates = this.entries.filter(entry => entry.receivedAt >= since)
 
-    const submissionElements = document.querySelectorAll('[data-submission-id]')
-    for (const el of submissionElements) {
-      const id = el.getAttribute('data-submission-id')
-      if (id) return id
+    const accepted = candidates.find(
+      entry => entry.kind === 'ACCEPTED' && (!entry.titleSlug || entry.titleSlug === titleSlug)
+    )
+    if (accepted) {
+      return accepted
     }
 
-    return null
+    return (
+      candidates.find(
+        entry =>
+          entry.kind === 'ACCEPTED_RECENT' &&
+          entry.titleSlug === titleSlug &&
+          entry.timestamp !== null &&
+          entry.timestamp * 1000 >= since - InterceptedSubmissions.CLOCK_SKEW_MS
+      ) || null
+    )
   }
 
-  private async getSubmissionFromGraphQL(submissionId: string): Promise<LeetCodeSubmission | null> {
-    const query = {
-      query: `query submissionDetails($submissionId: Int!) {
-        submissionDetails(submissionId: $submissionId) {
-          runtime
-          runtimeDisplay
-          memory
-          memoryDisplay
-          code
-          timestamp
-          statusCode
-          lang {
-            name
-            verboseName
-          }
-          question {
-            questionId
-            title
-            titleSlug
-            difficulty
-          }
-        }
-      }`,
-      variables: { submissionId: parseInt(submissionId) },
+  /**
+   * Build the submission from LeetCode's submission details, null when they
+   * describe anything but an accepted submission of the problem made after
+   * `since`. Imported submissions are built the same way.
+   */
+  private async fromDetails(
+    details: unknown,
+    titleSlug: string,
+    since: number
+  ): Promise<LeetCodeSubmission | null> {
+    if (!isRecord(details) || details.statusDisplay !== 'Accepted') {
+      return null
     }
 
-    try {
-      const response = await fetch('https://leetcode.com/graphql/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Referer: 'https://leetcode.com/',
-        },
-        body: JSON.stringify(query),
-      })
-
-      if (!response.ok) {
-        throw new Error(`GraphQL request failed: ${response.status}`)
-      }
-
-      const data = await response.json()
-      const details = data.data?.submissionDetails
-
-      if (!details) {
-        throw new Error('No submission details found')
-      }
-
-      return {
-        id: submissionId,
-        title: details.question.title,
-        titleSlug: details.question.titleSlug,
-        difficulty: details.question.difficulty as 'Easy' | 'Medium' | 'Hard',
-        language: details.lang.verboseName || details.lang.name,
-        code: details.code,
-        status: 'Accepted',
-        runtime: details.runtimeDisplay || `${details.runtime} ms`,
-        memory: details.memoryDisplay || `${details.memory} MB`,
-        timestamp: new Date().toISOString(),
-        link: window.location.href,
-        fileExtension:
-          getLanguageExtension(details.lang.verboseName || details.lang.name) || undefined,
-        tags: [],
-      }
-    } catch (error) {
+    const question = isRecord(details.question) ? details.question : {}
+    const submittedAt = Number(details.timestamp) * 1000
+    if (
+      question.titleSlug !== titleSlug ||
+      !(submittedAt >= since - InterceptedSubmissions.CLOCK_SKEW_MS)
+    ) {
       return null
     }
-  }
 
-  private async getSubmissionFromPage(): Promise<LeetCodeSubmission | null> {
-    const problemInfo = this.getProblemInfo()
-    const code = this.getCode()
-
-    if (!problemInfo || !code) return null
-
-    const language = this.getLanguage()
-    const stats = this.getStats()
-
-    return {
-      id: Date.now().toString(),
-      title: problemInfo.title,
-      titleSlug: problemInfo.titleSlug,
-      difficulty: problemInfo.difficulty as 'Easy' | 'Medium' | 'Hard',
-      language,
-      code,
-      status: 'Accepted',
-      runtime: stats.runtime || 'N/A',
-      memory: stats.memory || 'N/A',
-      timestamp: new Date().toISOString(),
-      link: window.location.href,
-      fileExtension: getLanguageExtension(language) || undefined,
-      tags: [],
-    }
+    return await leetcodeAPI.parseSubmissionFromDetails(details)
   }
+}
 
-  private getLanguage(): string {
-    const langSelectors = [
-      '[data-cy="lang-select"] .ant-select-selection-item',
-      '.ant-select-selection-item',
-      '[role="combobox"] span',
-    ]
-
-    for (const selector of langSelectors) {
-      const element = document.querySelector(selector)
-      const text = element?.textContent?.trim()
-      if (text && text !== 'Select Language') {
-        return getDisplayName(text)
-      }
-    }
-
-    return 'Unknown'
+function parseHint(data: unknown): Omit<SubmissionHint, 'receivedAt'> | null {
+  if (!isRecord(data) || !isRecord(data.payload)) {
+    return null
   }
 
-  private getStats(): { runtime: string; memory: string } {
-    let runtime = 'N/A'
-    let memory = 'N/A'
-
-    const allElements = document.querySelectorAll('[data-e2e-locator="submission-result"] *')
-    allElements.forEach(el => {
-      const text = el.textContent || ''
-      const runtimeMatch = text.match(/(\d+)\s*ms/)
-      const memoryMatch = text.match(/([\d.]+)\s*MB/)
-
-      if (runtimeMatch) runtime = `${runtimeMatch[1]} ms`
-      if (memoryMatch) memory = `${memoryMatch[1]} MB`
-    })
-
-    return { runtime, memory }
+  const { kind, payload } = data
+  if (kind !== 'SUBMITTED' && kind !== 'ACCEPTED' && kind !== 'ACCEPTED_RECENT') {
+    return null
   }
 
-  private extractTitleSlugFromUrl(): string {
-    const match = window.location.pathname.match(/\/problems\/([^/]+)/)
-    return match ? match[1] : ''
+  const { submissionId, titleSlug, timestamp } = payload
+  if (typeof submissionId !== 'string' || !/^\d{1,20}$/.test(submissionId)) {
+    return null
   }
 
-  private extractDifficulty(): string {
-    const difficultySelectors = [
-      '[class*="text-olive"]',
-      '[class*="text-yellow"]',
-      '[class*="text-red"]',
-      '[class*="bg-olive"]',
-      '[class*="bg-yellow"]',
-      '[class*="bg-red"]',
-    ]
-
-    for (const selector of difficultySelectors) {
-      const element = document.querySelector(selector)
-      if (element) {
-        const text = element.textContent?.toLowerCase() || ''
-        if (text.includes('easy')) return 'Easy'
-        if (text.includes('medium')) return 'Medium'
-        if (text.includes('hard')) return 'Hard'
-      }
-    }
-
-    return 'Easy'
+  return {
+    kind,
+    submissionId,
+    titleSlug: typeof titleSlug === 'string' ? titleSlug : null,
+    timestamp: typeof timestamp === 'number' && Number.isFinite(timestamp) ? timestamp : null,
   }
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
 class LeetShipLeetCodeContent {
   private isProcessing = false
   private observer: MutationObserver | null = null
+  private intercepted = new InterceptedSubmissions()
 
   constructor() {
     this.initialize()
@@ -582,30 +345,27 @@ class LeetShipLeetCodeContent {
     }
 
     this.isProcessing = true
+    const submittedAt = Date.now()
+    // The page may still show an earlier submission
+    const previousId = leetCodeInterface.findSubmissionId()
 
     try {
-      await this.waitForSubmission()
-
-      let submission = await leetCodeInterface.getSubmissionDetails()
-
-      if (submission) {
-        await this.processSuccessfulSubmission(submission)
+      const titleSlug = window.location.pathname.match(/\/problems\/([^/]+)/)?.[1]
+      if (!titleSlug) {
         return
       }
 
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      const submissionId =
+        (await this.intercepted.waitForSubmitted(titleSlug, submittedAt)) ||
+        (await this.intercepted.waitForAccepted(titleSlug, submittedAt)) ||
+        (await this.waitForPageSubmissionId(leetCodeInterface, previousId))
 
-      submission = await leetCodeInterface.getSubmissionDetails()
-      if (submission) {
-        await this.processSuccessfulSubmission(submission)
+      if (!submissionId) {
+        this.showErrorNotification('Could not find the submission to check, nothing was committed')
         return
       }
 
-      const resultFound = await this.waitForResultWithObserver(leetCodeInterface)
-
-      if (resultFound) {
-        return
-      }
+      await this.judgeSubmission(submissionId, titleSlug, submittedAt)
     } catch (error) {
       this.showErrorNotification('Failed to process submission')
     } finally {
@@ -613,93 +373,91 @@ class LeetShipLeetCodeContent {
     }
   }
 
-  private async waitForSubmission(): Promise<void> {
-    return new Promise(resolve => {
-      let attempts = 0
-      const maxAttempts = 30
+  /**
+   * Follow a submission through LeetCode's judge and commit it once accepted
+   */
+  private async judgeSubmission(submissionId: string, titleSlug: string, submittedAt: number) {
+    const settings = await this.getSettings()
+    const judge = new SubmissionJudge(submissionId, settings.judgeTimeout * 1000)
+    const verdict = await judge.waitForVerdict()
 
-      const checkSubmission = () => {
-        attempts++
-        const isComplete = this.isSubmissionComplete()
+    if (verdict.state === 'rejected') {
+      return
+    }
 
-        if (isComplete || attempts >= maxAttempts) {
-          resolve()
-        } else {
-          setTimeout(checkSubmission, 500)
-        }
-      }
+    if (verdict.state === 'timeout') {
+      this.showErrorNotification('LeetCode did not return a verdict in time, nothing was committed')
+      return
+    }
 
-      setTimeout(checkSubmission, 3000)
-    })
+    const submission = await this.intercepted.fetchSubmission(submissionId, titleSlug, submittedAt)
+    if (!submission) {
+      this.showErrorNotification('Could not load the accepted submission')
+      return
+    }
+
+    await this.processSuccessfulSubmission(submission)
   }
 
-  private isSubmissionComplete(): boolean {
-    const completionSelectors = [
-      '[data-e2e-locator="submission-result"]',
-      '[data-testid="submission-result"]',
-      '.submission-result',
-      '.accepted',
-      '.wrong-answer',
-      '.time-limit-exceeded',
-      '.runtime-error',
-      '.memory-limit-exceeded',
-      '.output-limit-exceeded',
-      '.compilation-error',
-      '[class*="result"]',
-      '[class*="status"]',
-    ]
-
-    for (const selector of completionSelectors) {
-      const elements = document.querySelectorAll(selector)
-      if (elements.length > 0) {
-        for (const element of elements) {
-          const text = element.textContent?.trim() || ''
-          if (text.length > 0) {
-            return true
-          }
-        }
+  private async getSettings(): Promise<Pick<ExtensionConfig['settings'], 'judgeTimeout'>> {
+    try {
+      const message: ExtensionMessage = { type: 'GET_SETTINGS' }
+      const response: MessageResponse<'GET_SETTINGS'> | undefined =
+        await chrome.runtime.sendMessage(message)
+      if (response?.settings) {
+        return response.settings
       }
-    }
+    } catch (error) {}
 
-    return false
+    return { judgeTimeout: DEFAULT_JUDGE_TIMEOUT_SECONDS }
   }
 
-  private async waitForResultWithObserver(leetCodeInterface: LeetCodeInterface): Promise<boolean> {
+  /**
+   * Wait for the page to show the id of a submission other than `previousId`,
+   * for when the interceptor saw nothing
+   */
+  private waitForPageSubmissionId(
+    leetCodeInterface: LeetCodeInterface,
+    previousId: string | null,
+    timeoutMs = 10000
+  ): Promise<string | null> {
     return new Promise(resolve => {
-      let timeout: NodeJS.Timeout
-
-      const observer = new MutationObserver(async () => {
-        setTimeout(async () => {
-          const submission = await leetCodeInterface.getSubmissionDetails()
-          if (submission) {
-            await this.processSuccessfulSubmission(submission)
-            observer.disconnect()
-            clearTimeout(timeout)
-            resolve(true)
-          }
-        }, 1000)
+      const find = () => {
+        const id = leetCodeInterface.findSubmissionId()
+        return id && id !== previousId ? id : null
+      }
+
+      const observer = new MutationObserver(() => {
+        const id = find()
+        if (id) done(id)
       })
+      const done = (id: string | null) => {
+        observer.disconnect()
+        clearTimeout(timer)
+        resolve(id)
+      }
+      const timer = setTimeout(() => done(find()), timeoutMs)
 
       observer.observe(document.body, {
         childList: true,
         subtree: true,
         attributes: true,
-        attributeFilter: ['class', 'data-e2e-locator', 'data-testid'],
+        attributeFilter: ['data-submission-id'],
       })
 
-      timeout = setTimeout(() => {
-        observer.disconnect()
-        resolve(false)
-      }, 10000)
+      const id = find()
+      if (id) done(id)
     })
   }
 
   private async processSuccessfulSubmission(submission: LeetCodeSubmission) {
     try {
-      const response = await chrome.runtime.sendMessage({
+      const message: ExtensionMessage = {
         type: 'SUBMISSION_ACCEPTED',
         submission,
-      })
+      }
+      const response: MessageResponse<'SUBMISSION_ACCEPTED'> | undefined =
+        await chrome.runtime.sendMessage(message)
 
       if (response?.success) {
         this.showSuccessNotification(submission)
@@ -0,0 +1,11 @@
+/** Build-time settings read from `.env` files by Vite */
+interface ImportMetaEnv {
+  /** Client ID of the GitHub App used for device-flow sign-in */
+  readonly VITE_GITHUB_CLIENT_ID?: string
+  /** Origin of the GitHub OAuth endpoints, e.g. a local stand-in server for testing */
+  readonly VITE_GITHUB_OAUTH_URL?: string
+}
+
+interface ImportMeta {
+  readonly env?: ImportMetaEnv
+}
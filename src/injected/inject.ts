@@ -0,0 +1,181 @@
+/**
+ * Network interceptor that runs in the page context of a LeetCode tab. The
+ * background worker injects it with `scripting.executeScript` and hands over
+ * the content script's one-time nonce as an argument. The interceptor posts
+ * the nonce with a MessagePort and from then on reports the ids of submissions
+ * it sees LeetCode load or create over that port.
+ *
+ * The handshake is an ordinary window message, so page scripts can read the
+ * nonce and take the port, and they can patch anything this code relies on.
+ * Nothing sent over the port is trusted: the content script treats the ids as
+ * hints and fetches every submission from LeetCode itself.
+ *
+ * The function is serialized into the page, so it must not reference anything
+ * outside its own body.
+ */
+export function interceptSubmissions(nonce: string): void {
+  type HintKind = 'SUBMITTED' | 'ACCEPTED' | 'ACCEPTED_RECENT'
+
+  /** Fields LeetShip reads from LeetCode's responses, any of them may be missing */
+  interface SubmissionItem {
+    id?: unknown
+    titleSlug?: unknown
+    timestamp?: unknown
+    status?: unknown
+    statusCode?: unknown
+    statusDisplay?: unknown
+    question?: { titleSlug?: unknown } | null
+  }
+
+  interface GraphQLResponse {
+    data?: {
+      submissionDetails?: SubmissionItem | null
+      submission?: SubmissionItem | null
+      recentSubmissionList?: unknown
+      recentAcSubmissionList?: unknown
+    } | null
+  }
+
+  interface GraphQLRequest {
+    variables?: { submissionId?: unknown } | null
+  }
+
+  interface SubmitResponse {
+    submission_id?: unknown
+  }
+
+  interface SubmissionHint {
+    submissionId: string
+    titleSlug: string | null
+    /** Seconds since the epoch, when LeetCode reported it */
+    timestamp: number | null
+  }
+
+  const ACCEPTED_STATUS_CODE = 10
+  // POST /problems/<slug>/submit/ answers with the id of the new submission
+  const SUBMIT_URL = /\/problems\/([^/]+)\/submit\/?(\?|$)/
+
+  const channel = new MessageChannel()
+  const port = channel.port1
+  window.postMessage({ source: 'LeetShip', kind: 'HANDSHAKE', nonce }, window.location.origin, [
+    channel.port2,
+  ])
+
+  const send = (kind: HintKind, hint: SubmissionHint) => {
+    port.postMessage({ kind, payload: hint })
+  }
+
+  const toId = (value: unknown): string | null =>
+    (typeof value === 'string' || typeof value === 'number') && /^\d+$/.test(String(value))
+      ? String(value)
+      : null
+
+  const toSlug = (value: unknown): string | null => (typeof value === 'string' ? value : null)
+
+  // Only objects are returned, so the optional fields above can be read safely
+  const parseJSON = <T extends object>(text: unknown): T | null => {
+    if (typeof text !== 'string') return null
+    try {
+      const value: unknown = JSON.parse(text)
+      return value && typeof value === 'object' ? (value as T) : null
+    } catch {
+      return null
+    }
+  }
+
+  const isAccepted = (item: SubmissionItem | null | undefined) =>
+    item?.statusDisplay === 'Accepted' ||
+    item?.status === 'Accepted' ||
+    item?.status === ACCEPTED_STATUS_CODE ||
+    item?.statusCode === ACCEPTED_STATUS_CODE
+
+  const handleSubmitData = (url: string, data: SubmitResponse) => {
+    const submissionId = toId(data.submission_id)
+    if (!submissionId) return
+    const match = url.match(SUBMIT_URL)
+    send('SUBMITTED', { submissionId, titleSlug: match ? match[1] : null, timestamp: null })
+  }
+
+  const handleGraphQLData = (data: GraphQLResponse, requestBody: unknown) => {
+    const details = data.data?.submissionDetails || data.data?.submission
+    if (details && isAccepted(details)) {
+      // LeetCode's own query does not always select the id, it is in the variables
+      const submissionId =
+        toId(details.id) || toId(parseJSON<GraphQLRequest>(requestBody)?.variables?.submissionId)
+      if (submissionId) {
+        send('ACCEPTED', {
+          submissionId,
+          titleSlug: toSlug(details.question?.titleSlug),
+          timestamp: Number(details.timestamp) || null,
+        })
+      }
+    }
+
+    const list = data.data?.recentSubmissionList || data.data?.recentAcSubmissionList
+    if (Array.isArray(list)) {
+      const accepted = (list as Array<SubmissionItem | null>).filter(
+        (item): item is SubmissionItem => isAccepted(item)
+      )
+      for (const item of accepted) {
+        const submissionId = toId(item.id)
+        if (submissionId) {
+          send('ACCEPTED_RECENT', {
+            submissionId,
+            titleSlug: toSlug(item.titleSlug),
+            timestamp: Number(item.timestamp) || null,
+          })
+        }
+      }
+    }
+  }
+
+  const handleResponse = (url: string, status: number, text: string, requestBody: unknown) => {
+    if (status !== 200) return
+    if (url.includes('graphql')) {
+      const data = parseJSON<GraphQLResponse>(text)
+      if (data) handleGraphQLData(data, requestBody)
+    } else if (SUBMIT_URL.test(url)) {
+      const data = parseJSON<SubmitResponse>(text)
+      if (data) handleSubmitData(url, data)
+    }
+  }
+
+  const originalFetch = window.fetch
+  window.fetch = async function (input, init) {
+    const response = await originalFetch(input, init)
+    const url = response.url || ''
+    if (url.includes('graphql') || SUBMIT_URL.test(url)) {
+      response
+        .clone()
+        .text()
+        .then(text => handleResponse(url, response.status, text, init?.body))
+        .catch(() => {})
+    }
+    return response
+  }
+
+  const originalOpen = XMLHttpRequest.prototype.open
+  const originalSend = XMLHttpRequest.prototype.send
+  const requestUrls = new WeakMap<XMLHttpRequest, string>()
+
+  XMLHttpRequest.prototype.open = function (
+    this: XMLHttpRequest,
+    method: string,
+    url: string | URL,
+    ...rest: unknown[]
+  ) {
+    requestUrls.set(this, String(url))
+    return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest)
+  } as typeof XMLHttpRequest.prototype.open
+
+  XMLHttpRequest.prototype.send = function (body) {
+    this.addEventListener('load', () => {
+      try {
+        handleResponse(requestUrls.get(this) || '', this.status, this.responseText, body)
+      } catch {
+        // Responses that are not text carry nothing LeetShip needs
+      }
+    })
+    return originalSend.call(this, body)
+  }
+}
@@ -0,0 +1,201 @@
+import { createServer } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DeviceCode, DeviceFlowConfig, DeviceFlowError, GitHubDeviceFlow } from './device-flow'
+
+const config: DeviceFlowConfig = {
+  clientId: 'client-id',
+  baseURL: 'https://github.test',
+  scope: 'repo',
+}
+
+/** Answer each request with the next response in order and record what was sent */
+function stubFetch(...responses: Array<Record<string, unknown>>) {
+  const requests: Array<{ url: string; params: URLSearchParams }> = []
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    requests.push({ url, params: new URLSearchParams(String(init.body)) })
+    const next = responses.shift()
+    if (!next) throw new Error('Unexpected request')
+    return new Response(JSON.stringify(next), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return requests
+}
+
+function deviceCode(overrides: Partial<DeviceCode> = {}): DeviceCode {
+  return {
+    deviceCode: 'device-code',
+    userCode: 'ABCD-1234',
+    verificationUri: 'https://github.com/login/device',
+    expiresAt: Date.now() + 15 * 60 * 1000,
+    interval: 5,
+    ...overrides,
+  }
+}
+
+async function errorCode(promise: Promise<unknown>) {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof DeviceFlowError) return error.code
+    throw error
+  }
+  throw new Error('Expected a DeviceFlowError')
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('requestCode', () => {
+  it('requests a device code for the configured client', async () => {
+    const requests = stubFetch({
+      device_code: 'device-code',
+      user_code: 'ABCD-1234',
+      verification_uri: 'https://github.com/login/device',
+      expires_in: 900,
+      interval: 5,
+    })
+
+    const code = await new GitHubDeviceFlow(config).requestCode()
+
+    expect(requests[0].url).toBe('https://github.test/login/device/code')
+    expect(Object.fromEntries(requests[0].params)).toEqual({
+      client_id: 'client-id',
+      scope: 'repo',
+    })
+    expect(code).toMatchObject({
+      deviceCode: 'device-code',
+      userCode: 'ABCD-1234',
+      verificationUri: 'https://github.com/login/device',
+      interval: 5,
+    })
+    expect(code.expiresAt).toBeGreaterThan(Date.now() + 890 * 1000)
+  })
+
+  it('refuses to start without a client id', async () => {
+    const flow = new GitHubDeviceFlow({ ...config, clientId: '' })
+    expect(await errorCode(flow.requestCode())).toBe('not_configured')
+  })
+
+  it('works against a local stand-in server', async () => {
+    const server = createServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      response.end(
+        JSON.stringify(
+          request.url === '/login/device/code'
+            ? { device_code: 'local', user_code: 'LOCL-0001', verification_uri: 'x', interval: 1 }
+            : { error: 'not_found' }
+        )
+      )
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    try {
+      const { port } = server.address() as AddressInfo
+      const flow = new GitHubDeviceFlow({ ...config, baseURL: `http://127.0.0.1:${port}` })
+      expect(await flow.requestCode()).toMatchObject({ deviceCode: 'local', interval: 1 })
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
+
+describe('pollForToken', () => {
+  it('keeps polling while authorization is pending', async () => {
+    const requests = stubFetch(
+      { error: 'authorization_pending' },
+      { error: 'authorization_pending' },
+      { access_token: 'token', refresh_token: 'refresh', expires_in: 28800 }
+    )
+    const sleep = vi.fn(async (_ms: number) => {})
+
+    const tokens = await new GitHubDeviceFlow(config, sleep).pollForToken(deviceCode())
+
+    expect(tokens.accessToken).toBe('token')
+    expect(tokens.refreshToken).toBe('refresh')
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([5000, 5000, 5000])
+    expect(requests[0].url).toBe('https://github.test/login/oauth/access_token')
+    expect(requests[0].params.get('grant_type')).toBe(
+      'urn:ietf:params:oauth:grant-type:device_code'
+    )
+  })
+
+  it('slows down when GitHub asks to', async () => {
+    stubFetch({ error: 'slow_down', interval: 10 }, { error: 'slow_down' }, { access_token: 't' })
+    const sleep = vi.fn(async (_ms: number) => {})
+
+    await new GitHubDeviceFlow(config, sleep).pollForToken(deviceCode())
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([5000, 10000, 15000])
+  })
+
+  it('fails when the user denies access', async () => {
+    stubFetch({ error: 'access_denied' })
+    const flow = new GitHubDeviceFlow(config, async () => {})
+
+    expect(await errorCode(flow.pollForToken(deviceCode()))).toBe('access_denied')
+  })
+
+  it('fails once the code has expired', async () => {
+    const requests = stubFetch({ error: 'expired_token' })
+    const flow = new GitHubDeviceFlow(config, async () => {})
+
+    expect(await errorCode(flow.pollForToken(deviceCode()))).toBe('expired_token')
+    expect(await errorCode(flow.pollForToken(deviceCode({ expiresAt: Date.now() - 1 })))).toBe(
+      'expired_token'
+    )
+    expect(requests).toHaveLength(1)
+  })
+
+  it('stops waiting as soon as it is cancelled', async () => {
+    const requests = stubFetch()
+    const abort = new AbortController()
+    const flow = new GitHubDeviceFlow(config)
+
+    const started = Date.now()
+    const polling = errorCode(flow.pollForToken(deviceCode({ interval: 60 }), abort.signal))
+    setTimeout(() => abort.abort(), 10)
+
+    expect(await polling).toBe('cancelled')
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(requests).toHaveLength(0)
+  })
+})
+
+describe('refresh', () => {
+  it('exchanges the refresh token for new tokens', async () => {
+    const requests = stubFetch({
+      access_token: 'new-token',
+      refresh_token: 'new-refresh',
+      expires_in: 28800,
+      refresh_token_expires_in: 15811200,
+    })
+
+    const tokens = await new GitHubDeviceFlow(config).refresh('old-refresh')
+
+    expect(Object.fromEntries(requests[0].params)).toEqual({
+      client_id: 'client-id',
+      grant_type: 'refresh_token',
+      refresh_token: 'old-refresh',
+    })
+    expect(tokens.accessToken).toBe('new-token')
+    expect(tokens.tokenExpiry).toBeGreaterThan(Date.now())
+    expect(tokens.refreshTokenExpiry).toBeGreaterThan(tokens.tokenExpiry!)
+  })
+
+  it('reports an expired refresh token', async () => {
+    stubFetch({ error: 'bad_refresh_token' })
+    expect(await errorCode(new GitHubDeviceFlow(config).refresh('old'))).toBe('bad_refresh_token')
+  })
+
+  it('reports an unreachable server', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('fetch failed')
+      })
+    )
+    expect(await errorCode(new GitHubDeviceFlow(config).refresh('old'))).toBe('request_failed')
+  })
+})
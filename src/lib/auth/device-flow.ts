@@ -0,0 +1,226 @@
+/**
+ * GitHub OAuth device authorization flow. The user enters a short code on
+ * github.com while the extension polls for the token, so no token has to be
+ * created or pasted by hand. Apps with expiring user tokens also receive a
+ * refresh token, used to renew the access token without signing in again.
+ *
+ * https://docs.github.com/en/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps#device-flow
+ */
+
+export interface DeviceFlowConfig {
+  /** Client ID of the GitHub App, public and safe to ship */
+  clientId: string
+  /** Origin of the OAuth endpoints, `https://github.com` or a local stand-in for tests */
+  baseURL: string
+  scope: string
+}
+
+export const GITHUB_DEVICE_FLOW: DeviceFlowConfig = {
+  clientId: import.meta.env?.VITE_GITHUB_CLIENT_ID || '',
+  baseURL: import.meta.env?.VITE_GITHUB_OAUTH_URL || 'https://github.com',
+  scope: 'repo',
+}
+
+export interface DeviceCode {
+  deviceCode: string
+  userCode: string
+  verificationUri: string
+  /** Epoch ms after which the code can no longer be entered */
+  expiresAt: number
+  /** Seconds to wait between polls */
+  interval: number
+}
+
+export interface OAuthTokens {
+  accessToken: string
+  refreshToken?: string
+  /** Epoch ms, absent for tokens that do not expire */
+  tokenExpiry?: number
+  refreshTokenExpiry?: number
+}
+
+export type DeviceFlowErrorCode =
+  | 'not_configured'
+  | 'access_denied'
+  | 'expired_token'
+  | 'cancelled'
+  | 'bad_refresh_token'
+  | 'request_failed'
+
+export class DeviceFlowError extends Error {
+  constructor(
+    message: string,
+    public code: DeviceFlowErrorCode
+  ) {
+    super(message)
+    this.name = 'DeviceFlowError'
+  }
+}
+
+const DEVICE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code'
+
+// GitHub adds this much to the interval each time it answers slow_down
+const SLOW_DOWN_SECONDS = 5
+
+/** Resolves after `ms`, or as soon as `signal` aborts */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+export class GitHubDeviceFlow {
+  constructor(
+    private config: DeviceFlowConfig = GITHUB_DEVICE_FLOW,
+    private sleep: (ms: number, signal?: AbortSignal) => Promise<void> = sleepUnlessAborted
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.config.clientId
+  }
+
+  async requestCode(): Promise<DeviceCode> {
+    if (!this.isConfigured()) {
+      throw new DeviceFlowError('GitHub sign-in is not configured for this build', 'not_configured')
+    }
+
+    const data = await this.post('/login/device/code', {
+      client_id: this.config.clientId,
+      scope: this.config.scope,
+    })
+
+    if (typeof data.device_code !== 'string' || typeof data.user_code !== 'string') {
+      throw this.toError(data)
+    }
+
+    return {
+      deviceCode: data.device_code,
+      userCode: data.user_code,
+      verificationUri: String(data.verification_uri),
+      expiresAt: Date.now() + Number(data.expires_in) * 1000,
+      interval: Number(data.interval) || SLOW_DOWN_SECONDS,
+    }
+  }
+
+  /**
+   * Poll until the user has entered the code. Rejects with a DeviceFlowError
+   * when the user denies access, the code expires or `signal` aborts.
+   */
+  async pollForToken(code: DeviceCode, signal?: AbortSignal): Promise<OAuthTokens> {
+    let interval = code.interval
+
+    while (Date.now() < code.expiresAt) {
+      await this.sleep(interval * 1000, signal)
+      if (signal?.aborted) {
+        throw new DeviceFlowError('Sign-in was cancelled', 'cancelled')
+      }
+
+      const data = await this.post(
+        '/login/oauth/access_token',
+        {
+          client_id: this.config.clientId,
+          device_code: code.deviceCode,
+          grant_type: DEVICE_GRANT,
+        },
+        signal
+      )
+
+      if (typeof data.access_token === 'string') {
+        return this.toTokens(data)
+      }
+
+      switch (data.error) {
+        case 'authorization_pending':
+          break
+        case 'slow_down':
+          interval = Number(data.interval) || interval + SLOW_DOWN_SECONDS
+          break
+        default:
+          throw this.toError(data)
+      }
+    }
+
+    throw new DeviceFlowError('The sign-in code expired, start again', 'expired_token')
+  }
+
+  async refresh(refreshToken: string): Promise<OAuthTokens> {
+    const data = await this.post('/login/oauth/access_token', {
+      client_id: this.config.clientId,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    })
+
+    if (typeof data.access_token !== 'string') {
+      throw this.toError(data)
+    }
+
+    return this.toTokens(data)
+  }
+
+  private async post(
+    path: string,
+    params: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    let response: Response
+    try {
+      response = await fetch(`${this.config.baseURL}${path}`, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams(params).toString(),
+        signal,
+      })
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new DeviceFlowError('Sign-in was cancelled', 'cancelled')
+      }
+      throw new DeviceFlowError('Could not reach GitHub', 'request_failed')
+    }
+
+    // Errors such as authorization_pending come back as JSON, mostly with 200
+    try {
+      return await response.json()
+    } catch (error) {
+      throw new DeviceFlowError(`GitHub sign-in failed (${response.status})`, 'request_failed')
+    }
+  }
+
+  private toTokens(data: Record<string, any>): OAuthTokens {
+    const now = Date.now()
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || undefined,
+      tokenExpiry: data.expires_in ? now + Number(data.expires_in) * 1000 : undefined,
+      refreshTokenExpiry: data.refresh_token_expires_in
+        ? now + Number(data.refresh_token_expires_in) * 1000
+        : undefined,
+    }
+  }
+
+  private toError(data: Record<string, any>): DeviceFlowError {
+    const description = data.error_description || data.error || 'Unexpected response'
+
+    switch (data.error) {
+      case 'access_denied':
+        return new DeviceFlowError('Access was denied on GitHub', 'access_denied')
+      case 'expired_token':
+        return new DeviceFlowError('The sign-in code expired, start again', 'expired_token')
+      case 'bad_refresh_token':
+        return new DeviceFlowError(
+          'The GitHub session has expired, sign in again',
+          'bad_refresh_token'
+        )
+      default:
+        return new DeviceFlowError(`GitHub sign-in failed: ${description}`, 'request_failed')
+    }
+  }
+}
@@ -1,25 +1,26 @@
 import { storage } from '../storage'
 import { GitHubConfig } from '../types'
+import { OAuthTokens } from './device-flow'
+import { githubTransport } from '../github/transport'
+import {
+  CapabilityKey,
+  CapabilityStatus,
+  getCapabilityHelp,
+  getTokenKind,
+  isExpiringSoon,
+  parseScopes,
+  parseTokenExpiration,
+  scopesAllowWrite,
+  TokenCapability,
+  TokenCapabilityReport,
+} from './token-capabilities'
 
 export class GitHubAuth {
-  private baseURL = 'https://api.github.com'
-
   /**
    * Helper function to make GitHub API requests with proper headers
    */
   private async ghFetch(url: string, token: string, init: RequestInit = {}): Promise<Response> {
-    const headers = {
-      Authorization: `token ${token}`,
-      Accept: 'application/vnd.github.v3+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'LeetShip (+webextension)',
-      ...init.headers,
-    }
-
-    return fetch(`${this.baseURL}${url}`, {
-      ...init,
-      headers,
-    })
+    return githubTransport.request(url, { ...init, token })
   }
 
   /**
@@ -71,6 +72,7 @@ export class GitHubAuth {
         accessToken: token,
         refreshToken: '', // PATs don't have refresh tokens
         tokenExpiry: undefined, // PATs don't expire unless revoked
+        authMethod: 'pat',
       }
       return config
     } catch (error) {
@@ -79,6 +81,30 @@ export class GitHubAuth {
     }
   }
 
+  /**
+   * Build the GitHub config for tokens obtained through the device flow
+   */
+  async authenticateWithOAuth(tokens: OAuthTokens): Promise<GitHubConfig> {
+    try {
+      await this.assertTokenAccepted(tokens.accessToken)
+      const userInfo = await this.tryGetUserInfo(tokens.accessToken)
+
+      return {
+        username: userInfo?.login || '',
+        repository: '',
+        branch: 'main',
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken || '',
+        tokenExpiry: tokens.tokenExpiry,
+        refreshTokenExpiry: tokens.refreshTokenExpiry,
+        authMethod: 'oauth',
+      }
+    } catch (error) {
+      console.error('💥 GitHub sign-in failed:', error)
+      throw error
+    }
+  }
+
   async validateToken(
     accessToken: string
   ): Promise<{ valid: boolean; user?: any; error?: string }> {
@@ -109,6 +135,145 @@ export class GitHubAuth {
     }
   }
 
+  /**
+   * Report what the token can do: its kind, scopes and expiration, and with
+   * a repository whether it can read it, push to it and open pull requests.
+   * Pull requests are only required for the pull request delivery mode.
+   */
+  async inspectToken(
+    token: string,
+    target: { owner: string; repo: string; requirePullRequests?: boolean } | null = null
+  ): Promise<TokenCapabilityReport> {
+    const report: TokenCapabilityReport = {
+      valid: false,
+      kind: getTokenKind(token),
+      scopes: null,
+      expiresAt: null,
+      expiresSoon: false,
+      capabilities: [],
+      ready: false,
+    }
+
+    let response: Response
+    try {
+      response = await this.ghFetch('/user', token)
+    } catch (error) {
+      return { ...report, error: 'Network error during token validation' }
+    }
+
+    if (response.status === 401) {
+      return { ...report, error: 'Token is invalid or expired' }
+    }
+    // Fine-grained tokens may be refused the profile but are still accepted
+    if (!response.ok && response.status !== 403) {
+      return { ...report, error: `Token validation failed (${response.status})` }
+    }
+
+    const scopesHeader = response.headers.get('x-oauth-scopes')
+    report.valid = true
+    report.kind = getTokenKind(token, scopesHeader)
+    report.scopes = parseScopes(scopesHeader)
+    report.expiresAt = parseTokenExpiration(
+      response.headers.get('github-authentication-token-expiration')
+    )
+    // Device-flow tokens are short-lived by design and renewed automatically
+    report.expiresSoon = report.kind !== 'oauth' && isExpiringSoon(report.expiresAt)
+    if (response.ok) {
+      report.login = (await response.json()).login
+    }
+
+    if (target) {
+      report.repository = `${target.owner}/${target.repo}`
+      report.capabilities = await this.inspectRepository(token, report, target)
+    }
+
+    report.ready = report.capabilities.every(
+      capability => !capability.required || capability.status !== 'missing'
+    )
+    return report
+  }
+
+  private async inspectRepository(
+    token: string,
+    report: TokenCapabilityReport,
+    target: { owner: string; repo: string; requirePullRequests?: boolean }
+  ): Promise<TokenCapability[]> {
+    const path = `/repos/${encodeURIComponent(target.owner)}/${encodeURIComponent(target.repo)}`
+    const capability = (
+      key: CapabilityKey,
+      label: string,
+      status: CapabilityStatus,
+      required = true
+    ): TokenCapability => ({
+      key,
+      label,
+      status,
+      required,
+      help:
+        status === 'granted' ? undefined : getCapabilityHelp(key, report.kind, report.repository!),
+    })
+
+    const repoResponse = await this.ghFetch(path, token).catch(() => null)
+    if (!repoResponse?.ok) {
+      const status = repoResponse?.status === 404 || repoResponse?.status === 403
+      return [capability('repository', 'Read the repository', status ? 'missing' : 'unknown')]
+    }
+
+    const repository = await repoResponse.json()
+    const capabilities = [capability('repository', 'Read the repository', 'granted')]
+
+    if (repository.archived) {
+      capabilities.push({
+        ...capability('contents', 'Commit solutions', 'missing'),
+        help: `${report.repository} is archived. Unarchive it in the repository settings.`,
+      })
+      return capabilities
+    }
+
+    // An all-zero commit is rejected with 422 after the permission check passes
+    let contents = await this.probe(token, `${path}/git/refs`, {
+      ref: 'refs/heads/leetship-permission-check',
+      sha: '0'.repeat(40),
+    })
+    if (contents === 'unknown' && report.scopes) {
+      contents = scopesAllowWrite(report.scopes, repository.private) ? 'granted' : 'missing'
+    }
+    capabilities.push(capability('contents', 'Commit solutions', contents))
+
+    // A pull request without head and base is rejected with 422 the same way
+    const pullRequests = await this.probe(token, `${path}/pulls`, {})
+    capabilities.push(
+      capability(
+        'pull-requests',
+        'Open pull requests',
+        pullRequests,
+        target.requirePullRequests ?? false
+      )
+    )
+
+    return capabilities
+  }
+
+  /**
+   * Send a request that cannot succeed. GitHub checks permissions before the
+   * payload, so 422 means the permission is granted and 403 or 404 that it is not.
+   */
+  private async probe(token: string, url: string, body: object): Promise<CapabilityStatus> {
+    try {
+      const response = await this.ghFetch(url, token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      if (response.status === 422) return 'granted'
+      if (response.status === 403 || response.status === 404) return 'missing'
+      return 'unknown'
+    } catch (error) {
+      return 'unknown'
+    }
+  }
+
   async validateStoredToken(): Promise<{ valid: boolean; user?: any; error?: string }> {
     try {
       const config = await storage.getDecryptedConfig()
@@ -173,6 +338,7 @@ To create a new GitHub Personal Access Token:
 For fine-grained tokens:
 - Set "Contents" to "Read and write"
 - Set "Metadata" to "Read-only"
+- Set "Pull requests" to "Read and write" for pull request delivery
     `.trim()
   }
 
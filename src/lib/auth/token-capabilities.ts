@@ -0,0 +1,132 @@
+/**
+ * What a GitHub token can do for LeetShip. Classic tokens list their scopes
+ * in `X-OAuth-Scopes`; fine-grained tokens have no scopes, so their
+ * repository permissions are probed with requests GitHub rejects as invalid
+ * (422) when the permission is granted and as forbidden (403) when it is not.
+ */
+
+export type TokenKind = 'classic' | 'fine-grained' | 'oauth' | 'unknown'
+
+export type CapabilityKey = 'repository' | 'contents' | 'pull-requests'
+
+export type CapabilityStatus = 'granted' | 'missing' | 'unknown'
+
+export interface TokenCapability {
+  key: CapabilityKey
+  label: string
+  status: CapabilityStatus
+  /** Missing capabilities stop commits; optional ones only limit features */
+  required: boolean
+  /** What to change on GitHub when the capability is missing or unknown */
+  help?: string
+}
+
+export interface TokenCapabilityReport {
+  valid: boolean
+  kind: TokenKind
+  login?: string
+  /** Scopes of classic and OAuth app tokens, null for tokens without scopes */
+  scopes: string[] | null
+  /** Epoch ms, null for tokens without an expiration date */
+  expiresAt: number | null
+  expiresSoon: boolean
+  /** `owner/repo` the capabilities were checked against */
+  repository?: string
+  capabilities: TokenCapability[]
+  /** Valid and no required capability is missing */
+  ready: boolean
+  error?: string
+}
+
+export const EXPIRY_WARNING_DAYS = 7
+
+export const TOKEN_SETTINGS_URLS: Record<TokenKind, string> = {
+  classic: 'https://github.com/settings/tokens',
+  'fine-grained': 'https://github.com/settings/personal-access-tokens',
+  oauth: 'https://github.com/settings/applications',
+  unknown: 'https://github.com/settings/tokens',
+}
+
+export function getTokenKind(token: string, scopesHeader?: string | null): TokenKind {
+  if (token.startsWith('github_pat_')) return 'fine-grained'
+  if (token.startsWith('ghp_')) return 'classic'
+  if (token.startsWith('gho_') || token.startsWith('ghu_')) return 'oauth'
+  // Old 40 character classic tokens have no prefix but still report scopes
+  return scopesHeader != null ? 'classic' : 'unknown'
+}
+
+/** Scopes from `X-OAuth-Scopes`, null when GitHub sent no such header */
+export function parseScopes(header: string | null): string[] | null {
+  if (header === null) return null
+  return header
+    .split(',')
+    .map(scope => scope.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parse `github-authentication-token-expiration`, sent as
+ * `2024-05-01 17:00:00 UTC` or with a numeric offset such as `-0700`
+ */
+export function parseTokenExpiration(header: string | null): number | null {
+  if (!header) return null
+
+  const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})\s*(UTC|[+-]\d{2}:?\d{2})?$/i.exec(
+    header.trim()
+  )
+  const time = match
+    ? Date.parse(
+        `${match[1]}T${match[2]}${
+          !match[3] || match[3].toUpperCase() === 'UTC'
+            ? 'Z'
+            : match[3].replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')
+        }`
+      )
+    : Date.parse(header)
+
+  return Number.isNaN(time) ? null : time
+}
+
+export function isExpiringSoon(expiresAt: number | null, now = Date.now()): boolean {
+  return expiresAt !== null && expiresAt - now < EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000
+}
+
+/** Whether classic scopes cover writing to a repository of the given visibility */
+export function scopesAllowWrite(scopes: string[], isPrivate: boolean): boolean {
+  return scopes.includes('repo') || (!isPrivate && scopes.includes('public_repo'))
+}
+
+/**
+ * Explanation of what to change on GitHub for a capability that is missing,
+ * worded for the kind of token in use
+ */
+export function getCapabilityHelp(key: CapabilityKey, kind: TokenKind, repository: string): string {
+  if (kind === 'fine-grained') {
+    switch (key) {
+      case 'repository':
+        return `Add ${repository} under "Repository access" in the token settings. Tokens for organization repositories may also need approval by the organization.`
+      case 'contents':
+        return `Set "Contents" to "Read and write" under "Repository permissions" in the token settings.`
+      case 'pull-requests':
+        return `Set "Pull requests" to "Read and write" under "Repository permissions" in the token settings.`
+    }
+  }
+
+  if (kind === 'oauth') {
+    switch (key) {
+      case 'repository':
+        return `Install the LeetShip GitHub App on ${repository}, or grant the app access to it.`
+      default:
+        return `Sign in again so LeetShip can request write access to ${repository}.`
+    }
+  }
+
+  switch (key) {
+    case 'repository':
+      return `Check the owner and name of ${repository}. Private repositories need the "repo" scope.`
+    case 'contents':
+      return `Create a token with the "repo" scope ("public_repo" is enough for a public repository), and make sure your account can push to ${repository}.`
+    case 'pull-requests':
+      return `Create a token with the "repo" scope to open pull requests in ${repository}.`
+  }
+}
@@ -6,6 +6,9 @@ export interface BrowserAPI {
   notifications: typeof browser.notifications
   runtime: typeof browser.runtime
   tabs: typeof browser.tabs
+  alarms: typeof browser.alarms
+  // The polyfill types only know the isolated world
+  scripting: typeof chrome.scripting
 }
 
 export const getBrowser = (): BrowserAPI => {
@@ -16,6 +19,8 @@ export const getBrowser = (): BrowserAPI => {
       notifications: chrome.notifications as any,
       runtime: chrome.runtime as any,
       tabs: chrome.tabs as any,
+      alarms: chrome.alarms as any,
+      scripting: chrome.scripting,
     }
   }
 
@@ -30,6 +35,8 @@ export const getBrowser = (): BrowserAPI => {
     notifications: browser.notifications,
     runtime: browser.runtime,
     tabs: browser.tabs,
+    alarms: browser.alarms,
+    scripting: browser.scripting as any,
   }
 }
 
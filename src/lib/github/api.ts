@@ -1,5 +1,8 @@
 import { GitHubFile } from '../types'
 import { storage } from '../storage'
+import { GitHubAPIError, GitHubRequestInit, githubTransport } from './transport'
+
+export { GitHubAPIError }
 
 export interface Repository {
   id: number
@@ -13,6 +16,37 @@ export interface Repository {
     push: boolean
     pull: boolean
   }
+  allow_auto_merge?: boolean
+  allow_squash_merge?: boolean
+  allow_merge_commit?: boolean
+  allow_rebase_merge?: boolean
+}
+
+export interface PullRequest {
+  number: number
+  /** GraphQL id, needed to enable auto-merge */
+  node_id: string
+  html_url: string
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  /** Null while open and for pull requests closed without merging */
+  merged_at: string | null
+  head: {
+    ref: string
+    /** Tip of the head branch, frozen once the pull request is closed */
+    sha: string
+  }
+}
+
+export type MergeMethod = 'merge' | 'squash' | 'rebase'
+
+export interface CreateRepositoryOptions {
+  name: string
+  description?: string
+  private: boolean
+  /** License template key, e.g. `mit`. GitHub writes the LICENSE file */
+  license?: string
 }
 
 export interface Branch {
@@ -34,34 +68,74 @@ export interface CommitResult {
   }
 }
 
-export class GitHubAPI {
-  private baseURL = 'https://api.github.com'
+export interface GitRef {
+  ref: string
+  object: {
+    sha: string
+    type: string
+  }
+}
+
+export interface GitCommit {
+  sha: string
+  html_url: string
+  message: string
+  tree: {
+    sha: string
+  }
+  parents: Array<{ sha: string }>
+}
+
+export interface GitTreeEntry {
+  path: string
+  mode: '100644' | '100755' | '040000'
+  type: 'blob' | 'tree'
+  sha: string | null
+}
+
+export interface GitTree {
+  sha: string
+  truncated: boolean
+  tree: Array<{
+    path: string
+    mode: string
+    type: 'blob' | 'tree' | 'commit'
+    sha: string
+    size?: number
+  }>
+}
+
+export interface CommitFile {
+  path: string
+  content: string
+  /** `base64` marks binary content that is already encoded, text is `utf-8` */
+  encoding?: FileEncoding
+}
+
+export type FileEncoding = 'utf-8' | 'base64'
 
-  private async getAuthHeaders(): Promise<Record<string, string>> {
+export class GitHubAPI {
+  private async getAccessToken(): Promise<string> {
     const config = await storage.getDecryptedConfig()
 
     if (!config.github?.accessToken) {
       throw new Error('No GitHub access token available')
     }
 
-    return {
-      Authorization: `token ${config.github.accessToken}`,
-      Accept: 'application/vnd.github.v3+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'LeetShip (+webextension)',
-      'Content-Type': 'application/json',
-    }
+    return config.github.accessToken
   }
 
-  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const headers = await this.getAuthHeaders()
-
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
+  /**
+   * Timeouts, retries and rate limits are handled by the transport; what
+   * reaches this point is the final answer
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    options: Omit<GitHubRequestInit, 'token'> = {}
+  ): Promise<T> {
+    const response = await githubTransport.request(endpoint, {
       ...options,
-      headers: {
-        ...headers,
-        ...options.headers,
-      },
+      token: await this.getAccessToken(),
     })
 
     if (!response.ok) {
@@ -71,27 +145,49 @@ export class GitHubAPI {
       if (response.status === 401) {
         // Clear the invalid token to force re-authentication
         await storage.forceTokenRefresh()
-        throw new Error(
-          `GitHub API error (${response.status}): Bad credentials. Please re-authenticate with a valid token.`
+        throw new GitHubAPIError(
+          `GitHub API error (${response.status}): Bad credentials. Please re-authenticate with a valid token.`,
+          response.status
         )
       }
 
-      // Handle other specific errors
-      if (response.status === 403) {
-        try {
-          const errorData = JSON.parse(errorBody)
-          if (errorData.message?.includes('rate limit')) {
-            throw new Error(`GitHub API rate limit exceeded. Please try again later.`)
-          }
-        } catch (parseError) {
-          // Fall through to generic error
-        }
+      throw new GitHubAPIError(
+        `GitHub API error (${response.status}): ${errorBody}`,
+        response.status
+      )
+    }
+
+    return await response.json()
+  }
+
+  /** Branch names may contain `/`, which has to stay a path separator in ref URLs */
+  private encodeBranch(branch: string): string {
+    return branch.split('/').map(encodeURIComponent).join('/')
+  }
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await this.makeRequest<{ data: T; errors?: Array<{ message: string }> }>(
+      '/graphql',
+      {
+        method: 'POST',
+        body: JSON.stringify({ query, variables }),
       }
+    )
 
-      throw new Error(`GitHub API error (${response.status}): ${errorBody}`)
+    // GraphQL reports failures with a 200 response
+    if (response.errors?.length) {
+      throw new GitHubAPIError(
+        `GitHub GraphQL error: ${response.errors.map(error => error.message).join('; ')}`,
+        422
+      )
     }
 
-    return await response.json()
+    return response.data
+  }
+
+  /** Base64 for the GitHub API; text is encoded as UTF-8 first */
+  private encodeContent(content: string, encoding: FileEncoding): string {
+    return encoding === 'base64' ? content : btoa(unescape(encodeURIComponent(content)))
   }
 
   async getCurrentUser(): Promise<any> {
@@ -107,6 +203,55 @@ export class GitHubAPI {
     return await this.makeRequest<Repository>(`/repos/${owner}/${repo}`)
   }
 
+  /**
+   * Create a repository for the authenticated user and commit the given
+   * scaffold files on its default branch as one commit. GitHub initializes the
+   * repository with a README (and the LICENSE) first, since the Git Data API
+   * cannot write into an empty repository.
+   */
+  async createRepository(
+    options: CreateRepositoryOptions,
+    files: CommitFile[] = []
+  ): Promise<Repository> {
+    const repository = await this.makeRequest<Repository>('/user/repos', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: options.name,
+        description: options.description,
+        private: options.private,
+        auto_init: true,
+        license_template: options.license || undefined,
+      }),
+    })
+
+    if (files.length > 0) {
+      const [owner] = repository.full_name.split('/')
+      await this.waitForBranch(owner, repository.name, repository.default_branch)
+      await this.commitFiles(
+        owner,
+        repository.name,
+        files,
+        'Initialize LeetShip repository',
+        repository.default_branch
+      )
+    }
+
+    return repository
+  }
+
+  /** A new repository's initial commit can take a moment to show up */
+  private async waitForBranch(owner: string, repo: string, branch: string): Promise<void> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      try {
+        if (await this.getRef(owner, repo, branch)) return
+      } catch (error) {
+        if (!isEmptyRepositoryError(error)) throw error
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)))
+    }
+    throw new Error(`Branch ${branch} of ${owner}/${repo} was not created`)
+  }
+
   async getBranches(owner: string, repo: string): Promise<Branch[]> {
     return await this.makeRequest<Branch[]>(`/repos/${owner}/${repo}/branches`)
   }
@@ -136,9 +281,10 @@ export class GitHubAPI {
     path: string,
     content: string,
     message: string,
-    branch?: string
+    branch?: string,
+    encoding: FileEncoding = 'utf-8'
   ): Promise<CommitResult> {
-    const encodedContent = btoa(unescape(encodeURIComponent(content)))
+    const encodedContent = this.encodeContent(content, encoding)
 
     const body: any = {
       message,
@@ -167,9 +313,10 @@ export class GitHubAPI {
     content: string,
     message: string,
     sha: string,
-    branch?: string
+    branch?: string,
+    encoding: FileEncoding = 'utf-8'
   ): Promise<CommitResult> {
-    const encodedContent = btoa(unescape(encodeURIComponent(content)))
+    const encodedContent = this.encodeContent(content, encoding)
 
     const body: any = {
       message,
@@ -198,24 +345,31 @@ export class GitHubAPI {
     path: string,
     content: string,
     message: string,
-    branch?: string
+    branch?: string,
+    encoding: FileEncoding = 'utf-8'
   ): Promise<CommitResult> {
     const existingFile = await this.getFile(owner, repo, path, branch)
 
     if (existingFile) {
-      return await this.updateFile(owner, repo, path, content, message, existingFile.sha, branch)
+      return await this.updateFile(
+        owner,
+        repo,
+        path,
+        content,
+        message,
+        existingFile.sha,
+        branch,
+        encoding
+      )
     } else {
-      return await this.createFile(owner, repo, path, content, message, branch)
+      return await this.createFile(owner, repo, path, content, message, branch, encoding)
     }
   }
 
   async createMultipleFiles(
     owner: string,
     repo: string,
-    files: Array<{
-      path: string
-      content: string
-    }>,
+    files: CommitFile[],
     message: string,
     branch?: string
   ): Promise<CommitResult[]> {
@@ -228,7 +382,8 @@ export class GitHubAPI {
         file.path,
         file.content,
         message,
-        branch
+        branch,
+        file.encoding
       )
       results.push(result)
 
@@ -238,6 +393,329 @@ export class GitHubAPI {
     return results
   }
 
+  /**
+   * The head of a branch, null when the branch does not exist. A repository
+   * without any commit yet fails with a 409, see isEmptyRepositoryError.
+   */
+  async getRef(owner: string, repo: string, branch: string): Promise<GitRef | null> {
+    try {
+      return await this.makeRequest<GitRef>(
+        `/repos/${owner}/${repo}/git/ref/heads/${this.encodeBranch(branch)}`
+      )
+    } catch (error) {
+      if (error instanceof GitHubAPIError && error.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getCommit(owner: string, repo: string, sha: string): Promise<GitCommit> {
+    return await this.makeRequest<GitCommit>(`/repos/${owner}/${repo}/git/commits/${sha}`)
+  }
+
+  async getTree(owner: string, repo: string, treeish: string, recursive = false): Promise<GitTree> {
+    const query = recursive ? '?recursive=1' : ''
+    return await this.makeRequest<GitTree>(
+      `/repos/${owner}/${repo}/git/trees/${this.encodeBranch(treeish)}${query}`
+    )
+  }
+
+  async getBlobContent(owner: string, repo: string, sha: string): Promise<string> {
+    const blob = await this.makeRequest<{ content: string; encoding: string }>(
+      `/repos/${owner}/${repo}/git/blobs/${sha}`
+    )
+
+    if (blob.encoding !== 'base64') {
+      return blob.content
+    }
+
+    return decodeBase64Content(blob.content)
+  }
+
+  async createBlob(
+    owner: string,
+    repo: string,
+    content: string,
+    encoding: FileEncoding = 'utf-8'
+  ): Promise<{ sha: string }> {
+    const encodedContent = this.encodeContent(content, encoding)
+
+    // Blobs are content-addressed, so a repeated create returns the same blob
+    return await this.makeRequest<{ sha: string }>(`/repos/${owner}/${repo}/git/blobs`, {
+      method: 'POST',
+      retry: true,
+      body: JSON.stringify({
+        content: encodedContent,
+        encoding: 'base64',
+      }),
+    })
+  }
+
+  /** Without `baseTree` the tree holds only the given entries */
+  async createTree(
+    owner: string,
+    repo: string,
+    baseTree: string | null,
+    entries: GitTreeEntry[]
+  ): Promise<{ sha: string }> {
+    // Trees are content-addressed like blobs
+    return await this.makeRequest<{ sha: string }>(`/repos/${owner}/${repo}/git/trees`, {
+      method: 'POST',
+      retry: true,
+      body: JSON.stringify({
+        base_tree: baseTree || undefined,
+        tree: entries,
+      }),
+    })
+  }
+
+  async createCommit(
+    owner: string,
+    repo: string,
+    message: string,
+    tree: string,
+    parents: string[]
+  ): Promise<GitCommit> {
+    return await this.makeRequest<GitCommit>(`/repos/${owner}/${repo}/git/commits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        message,
+        tree,
+        parents,
+      }),
+    })
+  }
+
+  async updateRef(
+    owner: string,
+    repo: string,
+    branch: string,
+    sha: string,
+    force = false
+  ): Promise<GitRef> {
+    return await this.makeRequest<GitRef>(
+      `/repos/${owner}/${repo}/git/refs/heads/${this.encodeBranch(branch)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          sha,
+          force,
+        }),
+      }
+    )
+  }
+
+  async createBranch(owner: string, repo: string, branch: string, sha: string): Promise<GitRef> {
+    return await this.makeRequest<GitRef>(`/repos/${owner}/${repo}/git/refs`, {
+      method: 'POST',
+      body: JSON.stringify({
+        ref: `refs/heads/${branch}`,
+        sha,
+      }),
+    })
+  }
+
+  /** The open pull request from `head` into `base`, if there is one */
+  async findPullRequest(
+    owner: string,
+    repo: string,
+    head: string,
+    base: string
+  ): Promise<PullRequest | null> {
+    const query = new URLSearchParams({ head: `${owner}:${head}`, base, state: 'open' })
+    const pullRequests = await this.makeRequest<PullRequest[]>(
+      `/repos/${owner}/${repo}/pulls?${query}`
+    )
+    return pullRequests[0] || null
+  }
+
+  /** The most recently opened of the closed pull requests from `head` into `base` */
+  async findLastClosedPullRequest(
+    owner: string,
+    repo: string,
+    head: string,
+    base: string
+  ): Promise<PullRequest | null> {
+    const query = new URLSearchParams({
+      head: `${owner}:${head}`,
+      base,
+      state: 'closed',
+      sort: 'created',
+      direction: 'desc',
+      per_page: '1',
+    })
+    const pullRequests = await this.makeRequest<PullRequest[]>(
+      `/repos/${owner}/${repo}/pulls?${query}`
+    )
+    return pullRequests[0] || null
+  }
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    pullRequest: { title: string; body: string; head: string; base: string }
+  ): Promise<PullRequest> {
+    return await this.makeRequest<PullRequest>(`/repos/${owner}/${repo}/pulls`, {
+      method: 'POST',
+      body: JSON.stringify(pullRequest),
+    })
+  }
+
+  async updatePullRequest(
+    owner: string,
+    repo: string,
+    number: number,
+    changes: { title?: string; body?: string }
+  ): Promise<PullRequest> {
+    return await this.makeRequest<PullRequest>(`/repos/${owner}/${repo}/pulls/${number}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+  }
+
+  /**
+   * Merge the pull request once its required checks and reviews pass. Only
+   * available when auto-merge is allowed in the repository settings.
+   */
+  async enableAutoMerge(pullRequestId: string, mergeMethod: MergeMethod): Promise<void> {
+    await this.graphql(
+      `mutation($id: ID!, $method: PullRequestMergeMethod!) {
+        enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: $method }) {
+          clientMutationId
+        }
+      }`,
+      { id: pullRequestId, method: mergeMethod.toUpperCase() }
+    )
+  }
+
+  async mergePullRequest(
+    owner: string,
+    repo: string,
+    number: number,
+    mergeMethod: MergeMethod
+  ): Promise<void> {
+    await this.makeRequest(`/repos/${owner}/${repo}/pulls/${number}/merge`, {
+      method: 'PUT',
+      body: JSON.stringify({ merge_method: mergeMethod }),
+    })
+  }
+
+  /**
+   * Write all files, and remove the given paths, as a single commit on top of
+   * the branch head. Nothing is visible on the branch until the final ref
+   * update succeeds. A branch that does not exist yet is created from the
+   * default branch.
+   */
+  async commitFiles(
+    owner: string,
+    repo: string,
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    deletions: string[] = []
+  ): Promise<GitCommit> {
+    let ref: GitRef | null
+    try {
+      ref = await this.getRef(owner, repo, branch)
+    } catch (error) {
+      if (!isEmptyRepositoryError(error)) throw error
+      return await this.commitInitialFiles(owner, repo, files, message, branch)
+    }
+
+    if (!ref) {
+      ref = await this.createBranchFromDefault(owner, repo, branch)
+    }
+
+    const parent = await this.getCommit(owner, repo, ref.object.sha)
+    const entries = await this.createBlobEntries(owner, repo, files)
+
+    if (deletions.length > 0) {
+      // Deleting a path that is not in the base tree fails the whole request
+      const baseTree = await this.getTree(owner, repo, parent.tree.sha, true)
+      const existingPaths = new Set(baseTree.tree.map(entry => entry.path))
+
+      for (const path of deletions) {
+        if (existingPaths.has(path) && !files.some(file => file.path === path)) {
+          entries.push({
+            path,
+            mode: '100644',
+            type: 'blob',
+            sha: null,
+          })
+        }
+      }
+    }
+
+    const tree = await this.createTree(owner, repo, parent.tree.sha, entries)
+    const commit = await this.createCommit(owner, repo, message, tree.sha, [parent.sha])
+
+    await this.updateRef(owner, repo, branch, commit.sha)
+
+    return commit
+  }
+
+  /**
+   * The Git Data API refuses to write into an empty repository. The first
+   * file goes through the contents API to create the branch, which is then
+   * replaced by a single root commit holding all files.
+   */
+  private async commitInitialFiles(
+    owner: string,
+    repo: string,
+    files: CommitFile[],
+    message: string,
+    branch: string
+  ): Promise<GitCommit> {
+    const [first] = files
+    if (!first) {
+      throw new Error(`${owner}/${repo} is empty and there are no files to commit`)
+    }
+
+    await this.createFile(owner, repo, first.path, first.content, message, branch, first.encoding)
+
+    const entries = await this.createBlobEntries(owner, repo, files)
+    const tree = await this.createTree(owner, repo, null, entries)
+    const commit = await this.createCommit(owner, repo, message, tree.sha, [])
+
+    await this.updateRef(owner, repo, branch, commit.sha, true)
+
+    return commit
+  }
+
+  private async createBranchFromDefault(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<GitRef> {
+    const { default_branch: defaultBranch } = await this.getRepository(owner, repo)
+    const defaultRef = defaultBranch !== branch && (await this.getRef(owner, repo, defaultBranch))
+
+    if (!defaultRef) {
+      throw new Error(`Branch ${branch} does not exist in ${owner}/${repo}`)
+    }
+
+    return await this.createBranch(owner, repo, branch, defaultRef.object.sha)
+  }
+
+  private async createBlobEntries(
+    owner: string,
+    repo: string,
+    files: CommitFile[]
+  ): Promise<GitTreeEntry[]> {
+    const entries: GitTreeEntry[] = []
+    for (const file of files) {
+      const blob = await this.createBlob(owner, repo, file.content, file.encoding)
+      entries.push({
+        path: file.path,
+        mode: '100644',
+        type: 'blob',
+        sha: blob.sha,
+      })
+    }
+    return entries
+  }
+
   async checkRateLimit(): Promise<{
     limit: number
     remaining: number
@@ -276,4 +754,18 @@ export class GitHubAPI {
   }
 }
 
+/** GitHub answers Git Data requests for a repository without any commit with 409 */
+export function isEmptyRepositoryError(error: unknown): boolean {
+  return error instanceof GitHubAPIError && error.status === 409
+}
+
+/**
+ * Text of a base64 `content` field from the contents or blobs API, which
+ * GitHub wraps across lines. Files are read as UTF-8.
+ */
+export function decodeBase64Content(content: string): string {
+  const bytes = Uint8Array.from(atob(content.replace(/\s/g, '')), char => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
 export const githubAPI = new GitHubAPI()
@@ -1,4 +1,5 @@
 import { GitHubConfig, CommitPayload } from '../types'
+import { githubTransport } from './transport'
 
 export interface RepositoryAccess {
   accessible: boolean
@@ -21,26 +22,13 @@ export interface UpsertFileResult {
 }
 
 export class GitHubClient {
-  private baseURL = 'https://api.github.com'
-
   constructor(private config: GitHubConfig) {}
 
   /**
    * Helper function to make GitHub API requests with proper headers
    */
   private async ghFetch(url: string, init: RequestInit = {}): Promise<Response> {
-    const headers = {
-      Authorization: `token ${this.config.accessToken}`,
-      Accept: 'application/vnd.github.v3+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'User-Agent': 'LeetShip (+webextension)',
-      ...init.headers,
-    }
-
-    return fetch(`${this.baseURL}${url}`, {
-      ...init,
-      headers,
-    })
+    return githubTransport.request(url, { ...init, token: this.config.accessToken })
   }
 
   /**
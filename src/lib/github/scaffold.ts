@@ -0,0 +1,62 @@
+import { ExtensionConfig } from '../types'
+import { LEETSHIP_SCHEMA } from '../templates'
+import { CommitFile } from './api'
+
+/** Settings file at the root of repositories created by LeetShip */
+export const SETTINGS_FILE = '.leetship.json'
+
+export const LICENSE_OPTIONS: Array<{ key: string; label: string }> = [
+  { key: '', label: 'No license' },
+  { key: 'mit', label: 'MIT' },
+  { key: 'apache-2.0', label: 'Apache 2.0' },
+  { key: 'unlicense', label: 'The Unlicense' },
+  { key: 'cc0-1.0', label: 'CC0 1.0' },
+]
+
+const GITIGNORE = `# OS and editor files
+.DS_Store
+Thumbs.db
+.idea/
+.vscode/
+*.swp
+
+# Build output from running solutions locally
+__pycache__/
+*.pyc
+*.class
+*.o
+*.out
+a.out
+target/
+bin/
+obj/
+node_modules/
+`
+
+/**
+ * Files committed into a repository created by LeetShip: the root README
+ * laid out by the configured template, so the statistics and solution
+ * sections are filled from the first commit on, a `.gitignore` and the
+ * settings file recording how solutions are laid out.
+ */
+export function buildRepositoryScaffold(
+  config: Pick<ExtensionConfig, 'templates' | 'settings'>
+): CommitFile[] {
+  const { templates, settings } = config
+
+  const settingsFile = {
+    leetshipSchema: LEETSHIP_SCHEMA,
+    preset: templates.preset,
+    folderLayout: templates.folderLayout,
+    filename: templates.filename,
+    filenameOverrides: templates.filenameOverrides,
+    solutionStrategy: settings.solutionStrategy,
+    createdAt: new Date().toISOString(),
+  }
+
+  return [
+    { path: 'README.md', content: templates.rootReadme },
+    { path: '.gitignore', content: GITIGNORE },
+    { path: SETTINGS_FILE, content: JSON.stringify(settingsFile, null, 2) + '\n' },
+  ]
+}
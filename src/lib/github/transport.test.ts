@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GitHubAPI } from './api'
+import { GitHubAPIError, GitHubNetworkError, GitHubTransport, githubTransport } from './transport'
+
+// The storage module needs the extension runtime, the API only reads the token from it
+vi.mock('../storage', () => ({
+  storage: { getDecryptedConfig: async () => ({ github: { accessToken: 't' } }) },
+}))
+
+type Reply = Response | Error
+
+/** Answer each request with the next reply in order and count what was sent */
+function stubFetch(...replies: Reply[]) {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => {
+    const next = replies.shift()
+    if (!next) throw new Error('Unexpected request')
+    if (next instanceof Error) throw next
+    return next
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function reply(status: number, headers: Record<string, string> = {}, body = '{}') {
+  return new Response(body, { status, headers })
+}
+
+/** Rate limit headers for a window that resets `resetInMs` from now */
+function rateLimitHeaders(remaining: number, resetInMs: number) {
+  return {
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(Math.ceil((Date.now() + resetInMs) / 1000)),
+  }
+}
+
+function createTransport(options: ConstructorParameters<typeof GitHubTransport>[0] = {}) {
+  const sleep = vi.fn(async (_ms: number) => {})
+  return { transport: new GitHubTransport({ retryBaseMs: 1, ...options }, sleep), sleep }
+}
+
+async function rejection(promise: Promise<unknown>) {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected the request to fail')
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('retries', () => {
+  it('retries GET requests after server and network errors', async () => {
+    const fetchMock = stubFetch(reply(502), new TypeError('fetch failed'), reply(200))
+    const { transport, sleep } = createTransport()
+
+    const response = await transport.request('/user', { token: 't' })
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(sleep).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry POST or PATCH requests by default', async () => {
+    const fetchMock = stubFetch(reply(502), new TypeError('fetch failed'))
+    const { transport, sleep } = createTransport()
+
+    const response = await transport.request('/repos/o/r/git/commits', { method: 'POST' })
+    const error = await rejection(
+      transport.request('/repos/o/r/git/refs/heads/main', {
+        method: 'PATCH',
+      })
+    )
+
+    expect(response.status).toBe(502)
+    expect(error).toBeInstanceOf(GitHubNetworkError)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('retries a POST that opts in', async () => {
+    const fetchMock = stubFetch(reply(502), new TypeError('fetch failed'), reply(201))
+    const { transport } = createTransport()
+
+    const response = await transport.request('/repos/o/r/git/blobs', {
+      method: 'POST',
+      retry: true,
+    })
+
+    expect(response.status).toBe(201)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up after maxRetries', async () => {
+    const fetchMock = stubFetch(reply(503), reply(503), reply(503))
+    const { transport } = createTransport({ maxRetries: 2 })
+
+    expect((await transport.request('/user')).status).toBe(503)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('content-addressed Git objects', () => {
+  it.each([
+    ['blob', (api: GitHubAPI) => api.createBlob('o', 'r', 'print(1)')],
+    ['tree', (api: GitHubAPI) => api.createTree('o', 'r', 'base', [])],
+  ])('creates a %s with retries enabled', async (_kind, create) => {
+    const request = vi
+      .spyOn(githubTransport, 'request')
+      .mockResolvedValue(reply(201, {}, '{"sha":"abc"}'))
+
+    expect(await create(new GitHubAPI())).toEqual({ sha: 'abc' })
+    expect(request.mock.calls[0][1]).toMatchObject({ method: 'POST', retry: true })
+  })
+})
+
+describe('rate limits', () => {
+  it('waits for Retry-After before sending again', async () => {
+    const fetchMock = stubFetch(reply(403, { 'retry-after': '5' }), reply(200))
+    const { transport, sleep } = createTransport()
+
+    const response = await transport.request('/repos/o/r/git/commits', { method: 'POST' })
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(sleep).toHaveBeenCalledTimes(1)
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(4000)
+    expect(sleep.mock.calls[0][0]).toBeLessThanOrEqual(5000)
+  })
+
+  it('waits for the primary limit to reset once the budget is spent', async () => {
+    const fetchMock = stubFetch(
+      reply(200, rateLimitHeaders(0, 10 * 1000)),
+      reply(200, rateLimitHeaders(4999, 60 * 60 * 1000))
+    )
+    const { transport, sleep } = createTransport()
+
+    await transport.request('/user', { token: 't' })
+    expect(transport.getRateLimit('t')).toMatchObject({ remaining: 0 })
+
+    await transport.request('/user', { token: 't' })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(sleep).toHaveBeenCalledTimes(1)
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(5000)
+    expect(transport.getRateLimit('t')).toMatchObject({ remaining: 4999 })
+  })
+
+  it('keeps separate budgets per token and resource', async () => {
+    stubFetch(reply(200, rateLimitHeaders(0, 10 * 1000)), reply(200))
+    const { transport, sleep } = createTransport()
+
+    await transport.request('/user', { token: 'a' })
+    await transport.request('/user', { token: 'b' })
+
+    expect(sleep).not.toHaveBeenCalled()
+    expect(transport.getRateLimit('a')).toMatchObject({ remaining: 0 })
+    expect(transport.getRateLimit('b')).toBeNull()
+    expect(transport.getRateLimit('a', 'graphql')).toBeNull()
+  })
+
+  it('fails with retryAt instead of waiting past maxRateLimitWaitMs', async () => {
+    const fetchMock = stubFetch(reply(403, rateLimitHeaders(0, 60 * 60 * 1000)))
+    const { transport, sleep } = createTransport({ maxRateLimitWaitMs: 60 * 1000 })
+
+    const error = await rejection(transport.request('/user', { token: 't' }))
+
+    expect(error).toBeInstanceOf(GitHubAPIError)
+    expect(error).toMatchObject({ status: 403, rateLimited: true })
+    expect((error as GitHubAPIError).retryAt).toBeGreaterThan(Date.now() + 59 * 60 * 1000)
+    expect(sleep).not.toHaveBeenCalled()
+
+    // Later requests fail straight away until the window resets
+    const next = await rejection(transport.request('/user', { token: 't' }))
+    expect(next).toMatchObject({ rateLimited: true })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns a 403 that is not a rate limit to the caller', async () => {
+    stubFetch(reply(403, {}, '{"message":"Resource not accessible by integration"}'))
+    const { transport, sleep } = createTransport()
+
+    expect((await transport.request('/repos/o/r')).status).toBe(403)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+})
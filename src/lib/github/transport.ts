@@ -0,0 +1,312 @@
+import CryptoJS from 'crypto-js'
+
+/**
+ * Shared HTTP transport for the GitHub REST and GraphQL APIs. Every request
+ * gets the same headers and a timeout, and requests that are safe to repeat
+ * are retried on server and network errors.
+ * Rate limits are tracked per token and resource from the `X-RateLimit-*`
+ * headers: once a budget is spent, requests wait for the reset instead of
+ * failing, and `Retry-After` is honoured for secondary rate limits.
+ */
+
+export const GITHUB_API_URL = 'https://api.github.com'
+
+export class GitHubAPIError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public rateLimited = false,
+    /** Epoch ms after which a rate-limited request may be sent again */
+    public retryAt?: number
+  ) {
+    super(message)
+    this.name = 'GitHubAPIError'
+  }
+}
+
+/** The request timed out or never reached GitHub, after all retries */
+export class GitHubNetworkError extends Error {
+  constructor(
+    message: string,
+    public timedOut = false
+  ) {
+    super(message)
+    this.name = 'GitHubNetworkError'
+  }
+}
+
+export interface TransportOptions {
+  /** Per attempt */
+  timeoutMs: number
+  /** Retries after a server or network error */
+  maxRetries: number
+  retryBaseMs: number
+  /**
+   * Longest a request waits for a rate limit to reset. A background worker
+   * may be stopped while it waits, so longer waits fail with a rate-limited
+   * GitHubAPIError carrying `retryAt`, and the commit queue retries then.
+   */
+  maxRateLimitWaitMs: number
+}
+
+export interface GitHubRequestInit extends RequestInit {
+  /** Sent as a Bearer token; requests without one are unauthenticated */
+  token?: string
+  timeoutMs?: number
+  /**
+   * Send the request again after a network or server error. Defaults to
+   * true for GET, HEAD and OPTIONS only: GitHub may have applied a write that
+   * failed this way, and sending it again could apply it twice.
+   */
+  retry?: boolean
+}
+
+interface RateLimitBucket {
+  /** Requests left in the window, null until GitHub has reported it */
+  remaining: number | null
+  /** Epoch ms when the window resets */
+  reset: number
+  /** Epoch ms before which nothing is sent, set by secondary rate limits */
+  blockedUntil: number
+}
+
+const DEFAULT_OPTIONS: TransportOptions = {
+  timeoutMs: 30 * 1000,
+  maxRetries: 3,
+  retryBaseMs: 1000,
+  maxRateLimitWaitMs: 60 * 1000,
+}
+
+const RETRY_STATUSES = new Set([500, 502, 503, 504])
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+// GitHub asks to wait at least a minute after a secondary rate limit without Retry-After
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000
+
+// Requests sent again after the rate limit resets, before giving up
+const MAX_RATE_LIMIT_WAITS = 3
+
+// Clock skew allowance added to X-RateLimit-Reset
+const RESET_MARGIN_MS = 1000
+
+export class GitHubTransport {
+  private options: TransportOptions
+  private buckets = new Map<string, RateLimitBucket>()
+
+  constructor(
+    options: Partial<TransportOptions> = {},
+    private sleep: (ms: number) => Promise<void> = ms =>
+      new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Send a request to the GitHub API. `path` is relative to the API root or a
+   * full URL. Resolves with the final response whatever its status; rejects
+   * with a GitHubNetworkError when GitHub cannot be reached and a rate-limited
+   * GitHubAPIError when the rate limit resets too far in the future.
+   * Rate-limited requests are always sent again, GitHub did not process them.
+   */
+  async request(path: string, init: GitHubRequestInit = {}): Promise<Response> {
+    const {
+      token,
+      timeoutMs = this.options.timeoutMs,
+      retry = SAFE_METHODS.has((init.method || 'GET').toUpperCase()),
+      ...requestInit
+    } = init
+    const maxRetries = retry ? this.options.maxRetries : 0
+    const url = /^https?:/.test(path) ? path : `${GITHUB_API_URL}${path}`
+    const bucket = this.getBucket(token, getResource(url))
+    const headers = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'User-Agent': 'LeetShip (+webextension)',
+      ...(typeof requestInit.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(requestInit.headers as Record<string, string> | undefined),
+    }
+
+    let retries = 0
+    let rateLimitWaits = 0
+
+    while (true) {
+      await this.waitForBudget(bucket)
+
+      let response: Response
+      try {
+        response = await this.send(url, { ...requestInit, headers }, timeoutMs)
+      } catch (error) {
+        if (requestInit.signal?.aborted) throw error
+        if (retries >= maxRetries) {
+          const timedOut = error instanceof GitHubNetworkError && error.timedOut
+          throw new GitHubNetworkError(
+            timedOut
+              ? `GitHub did not answer within ${Math.ceil(timeoutMs / 1000)} seconds`
+              : 'Could not reach GitHub, check your connection',
+            timedOut
+          )
+        }
+        await this.sleep(this.getBackoffDelay(retries++))
+        continue
+      }
+
+      this.updateBucket(bucket, response)
+
+      const wait = await this.getRateLimitWait(response, bucket, rateLimitWaits)
+      if (wait !== null) {
+        const retryAt = Date.now() + wait
+        if (wait > this.options.maxRateLimitWaitMs || rateLimitWaits >= MAX_RATE_LIMIT_WAITS) {
+          throw rateLimitError(response.status, retryAt)
+        }
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, retryAt)
+        rateLimitWaits++
+        continue
+      }
+
+      if (RETRY_STATUSES.has(response.status) && retries < maxRetries) {
+        await this.sleep(this.getBackoffDelay(retries++))
+        continue
+      }
+
+      return response
+    }
+  }
+
+  /** Last rate limit GitHub reported for the token, null before the first response */
+  getRateLimit(token?: string, resource = 'core'): { remaining: number; reset: number } | null {
+    const bucket = this.buckets.get(getBucketKey(token, resource))
+    return bucket && bucket.remaining !== null
+      ? { remaining: bucket.remaining, reset: bucket.reset }
+      : null
+  }
+
+  private async send(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    const timer = setTimeout(abort, timeoutMs)
+    init.signal?.addEventListener('abort', abort)
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal })
+    } catch (error) {
+      if (controller.signal.aborted && !init.signal?.aborted) {
+        throw new GitHubNetworkError('Request timed out', true)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      init.signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  /**
+   * Hold the request until the bucket has budget left. Requests waiting on
+   * the same bucket are released together when the window resets.
+   */
+  private async waitForBudget(bucket: RateLimitBucket): Promise<void> {
+    const now = Date.now()
+    if (bucket.remaining !== null && bucket.reset <= now) {
+      bucket.remaining = null
+    }
+
+    let until = bucket.blockedUntil
+    if (bucket.remaining !== null && bucket.remaining <= 0 && bucket.reset > now) {
+      until = Math.max(until, bucket.reset)
+    }
+
+    if (until > now) {
+      if (until - now > this.options.maxRateLimitWaitMs) {
+        throw rateLimitError(429, until)
+      }
+      await this.sleep(until - now)
+      // A new window starts, the next response reports the real budget
+      if (bucket.remaining !== null && bucket.remaining <= 0) bucket.remaining = null
+    }
+
+    // Count the request now so that concurrent requests share the budget
+    if (bucket.remaining !== null) bucket.remaining--
+  }
+
+  private updateBucket(bucket: RateLimitBucket, response: Response): void {
+    const remaining = response.headers.get('x-ratelimit-remaining')
+    const reset = response.headers.get('x-ratelimit-reset')
+    if (remaining === null || reset === null) return
+
+    bucket.remaining = Number(remaining)
+    bucket.reset = Number(reset) * 1000 + RESET_MARGIN_MS
+  }
+
+  /**
+   * How long to wait before sending a rate-limited request again, null when
+   * the response is not a rate limit. A 403 without rate limit headers or
+   * message is a permission error and is returned to the caller.
+   */
+  private async getRateLimitWait(
+    response: Response,
+    bucket: RateLimitBucket,
+    previousWaits: number
+  ): Promise<number | null> {
+    if (response.status !== 403 && response.status !== 429) return null
+
+    const retryAfter = Number(response.headers.get('retry-after'))
+    if (retryAfter > 0) {
+      return retryAfter * 1000
+    }
+
+    if (bucket.remaining === 0) {
+      return Math.max(bucket.reset - Date.now(), RESET_MARGIN_MS)
+    }
+
+    const body = await response
+      .clone()
+      .text()
+      .catch(() => '')
+    if (response.status === 429 || /secondary rate limit|abuse/i.test(body)) {
+      return SECONDARY_LIMIT_WAIT_MS * 2 ** previousWaits
+    }
+
+    return null
+  }
+
+  /** Exponential backoff with equal jitter, as in the commit queue */
+  private getBackoffDelay(retry: number): number {
+    const delay = this.options.retryBaseMs * 2 ** retry
+    return Math.round(delay / 2 + Math.random() * (delay / 2))
+  }
+
+  private getBucket(token: string | undefined, resource: string): RateLimitBucket {
+    const key = getBucketKey(token, resource)
+    let bucket = this.buckets.get(key)
+    if (!bucket) {
+      bucket = { remaining: null, reset: 0, blockedUntil: 0 }
+      this.buckets.set(key, bucket)
+    }
+    return bucket
+  }
+}
+
+/** GitHub keeps separate budgets for GraphQL and search */
+function getResource(url: string): string {
+  const path = url.replace(GITHUB_API_URL, '')
+  if (path.startsWith('/graphql')) return 'graphql'
+  if (path.startsWith('/search')) return 'search'
+  return 'core'
+}
+
+/** Buckets are kept by a digest of the token so the token itself is not held as a key */
+function getBucketKey(token: string | undefined, resource: string): string {
+  return `${token ? CryptoJS.SHA256(token).toString() : 'anonymous'}:${resource}`
+}
+
+function rateLimitError(status: number, retryAt: number): GitHubAPIError {
+  return new GitHubAPIError(
+    `GitHub API rate limit exceeded. Requests resume at ${new Date(retryAt).toLocaleTimeString()}.`,
+    status,
+    true,
+    retryAt
+  )
+}
+
+export const githubTransport = new GitHubTransport()
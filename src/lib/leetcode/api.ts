@@ -1,8 +1,23 @@
 import { LeetCodeSubmission, ProblemDetails } from '../types'
+import { getLanguageExtension } from './languages'
+import { validateSubmission } from './submission-schema'
 
 const LEETCODE_BASE_URL = 'https://leetcode.com'
 const GRAPHQL_ENDPOINT = `${LEETCODE_BASE_URL}/graphql`
 
+export interface SubmissionListPage {
+  lastKey: string | null
+  hasNext: boolean
+  submissions: Array<{
+    id: string
+    title: string
+    titleSlug: string
+    statusDisplay: string
+    lang: string
+    timestamp: string
+  }>
+}
+
 export interface LeetCodeAPI {
   getRecentSubmissions(limit?: number): Promise<any[]>
   getSubmissionDetails(submissionId: string): Promise<any>
@@ -19,6 +34,7 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
           'Content-Type': 'application/json',
           Accept: 'application/json',
         },
+        credentials: 'include',
         body: JSON.stringify({
           query,
           variables,
@@ -66,6 +82,41 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
     return data.recentSubmissionList || []
   }
 
+  /**
+   * Page through the signed-in user's submissions, newest first
+   */
+  async getSubmissionList(
+    offset: number,
+    limit: number = 20,
+    lastKey: string | null = null
+  ): Promise<SubmissionListPage> {
+    const query = `
+      query submissionList($offset: Int!, $limit: Int!, $lastKey: String) {
+        submissionList(offset: $offset, limit: $limit, lastKey: $lastKey) {
+          lastKey
+          hasNext
+          submissions {
+            id
+            title
+            titleSlug
+            statusDisplay
+            lang
+            timestamp
+          }
+        }
+      }
+    `
+
+    const variables = { offset, limit, lastKey }
+    const data = await this.makeGraphQLRequest(query, variables)
+
+    if (!data.submissionList) {
+      throw new Error('Submission list unavailable, please sign in to LeetCode')
+    }
+
+    return data.submissionList
+  }
+
   async getSubmissionDetails(submissionId: string): Promise<any> {
     const query = `
       query submissionDetails($submissionId: Int!) {
@@ -73,13 +124,16 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
           id
           code
           runtime
+          runtimeDisplay
           memory
+          memoryDisplay
           runtimePercentile
           memoryPercentile
           statusDisplay
           timestamp
           question {
             questionId
+            questionFrontendId
             title
             titleSlug
             difficulty
@@ -108,6 +162,7 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
       query questionDetails($titleSlug: String!) {
         question(titleSlug: $titleSlug) {
           questionId
+          questionFrontendId
           title
           titleSlug
           difficulty
@@ -130,7 +185,7 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
     }
 
     return {
-      id: question.questionId,
+      id: question.questionFrontendId || question.questionId,
       title: question.title,
       titleSlug: question.titleSlug,
       difficulty: question.difficulty,
@@ -146,30 +201,41 @@ export class LeetCodeAPIImpl implements LeetCodeAPI {
     return details.code || ''
   }
 
+  /**
+   * Build a submission from the answer of getSubmissionDetails. Live and
+   * imported submissions both go through here, so they get the same problem
+   * number, display strings and file extension. Throws when the result does
+   * not match the submission schema.
+   */
   async parseSubmissionFromDetails(details: any): Promise<LeetCodeSubmission> {
     const question = details.question
+    const language = details.lang?.verboseName || details.lang?.name || 'Unknown'
 
-    return {
-      id: question.questionId,
+    return validateSubmission({
+      // questionId is LeetCode's internal id, the problem number is the frontend id
+      id: question.questionFrontendId || question.questionId,
       title: question.title,
       titleSlug: question.titleSlug,
       difficulty: question.difficulty,
-      tags: question.topicTags.map((tag: any) => tag.name),
+      tags: (question.topicTags || []).map((tag: any) => tag.name),
       link: `${LEETCODE_BASE_URL}/problems/${question.titleSlug}/`,
       acceptanceRate: question.acRate ? `${Math.round(question.acRate * 100)}%` : undefined,
-      runtime: details.runtime || 'N/A',
-      memory: details.memory || 'N/A',
-      language: details.lang?.verboseName || details.lang?.name || 'Unknown',
+      runtime: details.runtimeDisplay || `${details.runtime} ms`,
+      memory: details.memoryDisplay || `${details.memory} MB`,
+      language,
       timestamp: new Date(details.timestamp * 1000).toISOString(),
       code: details.code || '',
       status: details.statusDisplay || 'Unknown',
-      runtimePercentile: details.runtimePercentile
-        ? `${Math.round(details.runtimePercentile)}%`
-        : undefined,
-      memoryPercentile: details.memoryPercentile
-        ? `${Math.round(details.memoryPercentile)}%`
-        : undefined,
-    }
+      runtimePercentile:
+        typeof details.runtimePercentile === 'number'
+          ? `${Math.round(details.runtimePercentile)}%`
+          : undefined,
+      memoryPercentile:
+        typeof details.memoryPercentile === 'number'
+          ? `${Math.round(details.memoryPercentile)}%`
+          : undefined,
+      fileExtension: getLanguageExtension(language) || undefined,
+    })
   }
 }
 
@@ -0,0 +1,281 @@
+/**
+ * Every language LeetCode accepts submissions in, keyed by the `lang.name`
+ * slug LeetCode uses in its API. File names, code fences and comments are all
+ * derived from this table.
+ */
+
+export type LanguageCategory = 'algorithm' | 'database' | 'shell' | 'pandas'
+
+export interface LanguageInfo {
+  /** LeetCode's `lang.name`, e.g. `python3` or `golang` */
+  slug: string
+  /** LeetCode's `lang.verboseName`, e.g. `Python3` or `Go` */
+  name: string
+  /** File extension without the leading dot */
+  extension: string
+  /** Markdown code fence language */
+  fence: string
+  comment: {
+    line?: string
+    block?: [string, string]
+  }
+  category: LanguageCategory
+  /** Other spellings seen in the editor or in older submissions */
+  aliases?: string[]
+}
+
+const C_STYLE_COMMENT: LanguageInfo['comment'] = { line: '//', block: ['/*', '*/'] }
+const SQL_COMMENT: LanguageInfo['comment'] = { line: '--', block: ['/*', '*/'] }
+
+// Languages sharing an extension are listed with the preferred one first, it
+// wins when a language is recovered from a file name
+const LANGUAGE_LIST: LanguageInfo[] = [
+  {
+    slug: 'cpp',
+    name: 'C++',
+    extension: 'cpp',
+    fence: 'cpp',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'java',
+    name: 'Java',
+    extension: 'java',
+    fence: 'java',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'python3',
+    name: 'Python3',
+    extension: 'py',
+    fence: 'python',
+    comment: { line: '#', block: ['"""', '"""'] },
+    category: 'algorithm',
+  },
+  {
+    slug: 'python',
+    name: 'Python',
+    extension: 'py',
+    fence: 'python',
+    comment: { line: '#', block: ['"""', '"""'] },
+    category: 'algorithm',
+  },
+  {
+    slug: 'c',
+    name: 'C',
+    extension: 'c',
+    fence: 'c',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'csharp',
+    name: 'C#',
+    extension: 'cs',
+    fence: 'csharp',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'javascript',
+    name: 'JavaScript',
+    extension: 'js',
+    fence: 'javascript',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+    aliases: ['js'],
+  },
+  {
+    slug: 'typescript',
+    name: 'TypeScript',
+    extension: 'ts',
+    fence: 'typescript',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+    aliases: ['ts'],
+  },
+  {
+    slug: 'php',
+    name: 'PHP',
+    extension: 'php',
+    fence: 'php',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'swift',
+    name: 'Swift',
+    extension: 'swift',
+    fence: 'swift',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'kotlin',
+    name: 'Kotlin',
+    extension: 'kt',
+    fence: 'kotlin',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'dart',
+    name: 'Dart',
+    extension: 'dart',
+    fence: 'dart',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'golang',
+    name: 'Go',
+    extension: 'go',
+    fence: 'go',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+    aliases: ['go'],
+  },
+  {
+    slug: 'ruby',
+    name: 'Ruby',
+    extension: 'rb',
+    fence: 'ruby',
+    comment: { line: '#', block: ['=begin', '=end'] },
+    category: 'algorithm',
+  },
+  {
+    slug: 'scala',
+    name: 'Scala',
+    extension: 'scala',
+    fence: 'scala',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'rust',
+    name: 'Rust',
+    extension: 'rs',
+    fence: 'rust',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'racket',
+    name: 'Racket',
+    extension: 'rkt',
+    fence: 'racket',
+    comment: { line: ';', block: ['#|', '|#'] },
+    category: 'algorithm',
+  },
+  {
+    slug: 'erlang',
+    name: 'Erlang',
+    extension: 'erl',
+    fence: 'erlang',
+    comment: { line: '%' },
+    category: 'algorithm',
+  },
+  {
+    slug: 'elixir',
+    name: 'Elixir',
+    extension: 'ex',
+    fence: 'elixir',
+    comment: { line: '#' },
+    category: 'algorithm',
+  },
+  {
+    slug: 'cangjie',
+    name: 'Cangjie',
+    extension: 'cj',
+    fence: 'cangjie',
+    comment: C_STYLE_COMMENT,
+    category: 'algorithm',
+  },
+  {
+    slug: 'mysql',
+    name: 'MySQL',
+    extension: 'sql',
+    fence: 'sql',
+    comment: SQL_COMMENT,
+    category: 'database',
+  },
+  {
+    slug: 'mssql',
+    name: 'MS SQL Server',
+    extension: 'sql',
+    fence: 'sql',
+    comment: SQL_COMMENT,
+    category: 'database',
+  },
+  {
+    slug: 'oraclesql',
+    name: 'Oracle',
+    extension: 'sql',
+    fence: 'sql',
+    comment: SQL_COMMENT,
+    category: 'database',
+    aliases: ['oracle'],
+  },
+  {
+    slug: 'postgresql',
+    name: 'PostgreSQL',
+    extension: 'sql',
+    fence: 'sql',
+    comment: SQL_COMMENT,
+    category: 'database',
+  },
+  {
+    slug: 'bash',
+    name: 'Bash',
+    extension: 'sh',
+    fence: 'bash',
+    comment: { line: '#' },
+    category: 'shell',
+    aliases: ['shell'],
+  },
+  {
+    slug: 'pythondata',
+    name: 'Pandas',
+    extension: 'py',
+    fence: 'python',
+    comment: { line: '#', block: ['"""', '"""'] },
+    category: 'pandas',
+  },
+]
+
+export const LANGUAGES: Readonly<Record<string, LanguageInfo>> = Object.fromEntries(
+  LANGUAGE_LIST.map(language => [language.slug, language])
+)
+
+const LOOKUP = new Map<string, LanguageInfo>()
+LANGUAGE_LIST.forEach(language => {
+  ;[language.slug, language.name, ...(language.aliases || [])].forEach(key => {
+    if (!LOOKUP.has(key.toLowerCase())) LOOKUP.set(key.toLowerCase(), language)
+  })
+})
+
+/**
+ * Find a language by slug, display name or alias, ignoring case. Submissions
+ * carry whichever of these the source they were read from used.
+ */
+export function findLanguage(language: string): LanguageInfo | null {
+  if (!language) return null
+  return LOOKUP.get(language.trim().toLowerCase()) || null
+}
+
+export function findLanguageByExtension(extension: string): LanguageInfo | null {
+  if (!extension) return null
+  const normalized = extension.replace(/^\./, '').toLowerCase()
+  return LANGUAGE_LIST.find(language => language.extension === normalized) || null
+}
+
+/** File extension without the leading dot */
+export function getLanguageExtension(language: string): string | null {
+  return findLanguage(language)?.extension || null
+}
+
+export function getDisplayName(language: string): string {
+  return findLanguage(language)?.name || language
+}
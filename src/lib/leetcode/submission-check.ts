@@ -0,0 +1,111 @@
+const LEETCODE_BASE_URL = 'https://leetcode.com'
+
+/** LeetCode's status_code for an accepted submission */
+const ACCEPTED_STATUS_CODE = 10
+
+export type JudgeState = 'pending' | 'judging' | 'accepted' | 'rejected' | 'timeout'
+
+/**
+ * Response of `/submissions/detail/<id>/check/`. Only the fields LeetShip
+ * relies on are listed.
+ */
+export interface SubmissionCheck {
+  state: 'PENDING' | 'STARTED' | 'SUCCESS' | string
+  status_code?: number
+  status_msg?: string
+  status_runtime?: string
+  status_memory?: string
+  runtime_percentile?: number | null
+  memory_percentile?: number | null
+}
+
+export interface JudgeVerdict {
+  state: JudgeState
+  check: SubmissionCheck | null
+}
+
+const TRANSITIONS: Record<JudgeState, JudgeState[]> = {
+  pending: ['judging', 'accepted', 'rejected', 'timeout'],
+  judging: ['accepted', 'rejected', 'timeout'],
+  accepted: [],
+  rejected: [],
+  timeout: [],
+}
+
+/**
+ * Follows a single submission through LeetCode's judge by polling the check
+ * endpoint: pending → judging → accepted or rejected. Gives up with `timeout`
+ * when no verdict arrives in time.
+ */
+export class SubmissionJudge {
+  private state: JudgeState = 'pending'
+  private lastCheck: SubmissionCheck | null = null
+
+  constructor(
+    readonly submissionId: string,
+    private timeoutMs: number,
+    private pollIntervalMs = 1000
+  ) {}
+
+  getState(): JudgeState {
+    return this.state
+  }
+
+  async waitForVerdict(): Promise<JudgeVerdict> {
+    const deadline = Date.now() + this.timeoutMs
+
+    while (!this.isFinal()) {
+      if (Date.now() >= deadline) {
+        this.transition('timeout')
+        break
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs))
+
+      try {
+        this.lastCheck = await this.fetchCheck()
+        this.transition(this.stateFromCheck(this.lastCheck))
+      } catch (error) {
+        // Transient network errors are retried until the deadline
+      }
+    }
+
+    return { state: this.state, check: this.lastCheck }
+  }
+
+  private isFinal(): boolean {
+    return TRANSITIONS[this.state].length === 0
+  }
+
+  private transition(next: JudgeState): void {
+    if (next !== this.state && TRANSITIONS[this.state].includes(next)) {
+      this.state = next
+    }
+  }
+
+  private stateFromCheck(check: SubmissionCheck): JudgeState {
+    switch (check.state) {
+      case 'PENDING':
+        return 'pending'
+      case 'STARTED':
+        return 'judging'
+      case 'SUCCESS':
+        return check.status_code === ACCEPTED_STATUS_CODE ? 'accepted' : 'rejected'
+      default:
+        return this.state
+    }
+  }
+
+  private async fetchCheck(): Promise<SubmissionCheck> {
+    const response = await fetch(
+      `${LEETCODE_BASE_URL}/submissions/detail/${this.submissionId}/check/`,
+      { credentials: 'include' }
+    )
+
+    if (!response.ok) {
+      throw new Error(`Submission check failed: ${response.status}`)
+    }
+
+    return await response.json()
+  }
+}
@@ -0,0 +1,19 @@
+import { LeetCodeSubmission } from '../types'
+
+function simpleHash(str: string): string {
+  let hash = 0
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash + str.charCodeAt(i)) & 0xffffffff
+  }
+  return Math.abs(hash).toString(36)
+}
+
+/**
+ * Key used to recognise a solution that was already committed, independent of
+ * the submission id LeetCode assigned to it
+ */
+export function getSubmissionKey(submission: LeetCodeSubmission): string {
+  const codeLength = submission.code.length
+  const codeHash = simpleHash(submission.code)
+  return `${submission.titleSlug}-${submission.language}-${codeLength}-${codeHash}`
+}
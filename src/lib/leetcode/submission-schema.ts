@@ -0,0 +1,99 @@
+import { LeetCodeSubmission } from '../types'
+
+/** LeetCode rejects source files above 100 KB, so anything larger is not a real submission */
+const MAX_CODE_LENGTH = 100 * 1024
+const MAX_TAGS = 30
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const
+
+type FieldRule = {
+  required: boolean
+  maxLength: number
+  pattern?: RegExp
+  /** Applied before the length and pattern checks */
+  normalize?: (value: string) => string
+}
+
+const STRING_FIELDS: Record<string, FieldRule> = {
+  id: { required: true, maxLength: 20, pattern: /^\d+$/ },
+  title: { required: true, maxLength: 200 },
+  // The slug becomes part of the repository path, so it must not contain separators
+  titleSlug: { required: true, maxLength: 120, pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/ },
+  link: { required: true, maxLength: 500, pattern: /^https:\/\/leetcode\.(com|cn)\// },
+  runtime: { required: true, maxLength: 40 },
+  memory: { required: true, maxLength: 40 },
+  language: { required: true, maxLength: 40 },
+  timestamp: { required: true, maxLength: 40 },
+  code: { required: true, maxLength: MAX_CODE_LENGTH },
+  status: { required: true, maxLength: 40 },
+  acceptanceRate: { required: false, maxLength: 20 },
+  runtimePercentile: { required: false, maxLength: 20 },
+  memoryPercentile: { required: false, maxLength: 20 },
+  // Extensions are accepted with or without a leading dot
+  fileExtension: {
+    required: false,
+    maxLength: 10,
+    pattern: /^[a-z0-9]+$/,
+    normalize: value => value.replace(/^\./, '').toLowerCase(),
+  },
+}
+
+/**
+ * Check an untrusted value against the LeetCodeSubmission schema and return a
+ * copy holding only the known fields. Throws when a field is missing, has the
+ * wrong type or exceeds its size limit.
+ */
+export function validateSubmission(value: unknown): LeetCodeSubmission {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid submission: expected an object')
+  }
+
+  const input = value as Record<string, unknown>
+  const submission: Record<string, unknown> = {}
+
+  for (const [field, rule] of Object.entries(STRING_FIELDS)) {
+    const fieldValue = input[field]
+
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+      if (rule.required) {
+        throw new Error(`Invalid submission: ${field} is required`)
+      }
+      continue
+    }
+
+    if (typeof fieldValue !== 'string') {
+      throw new Error(`Invalid submission: ${field} must be a string`)
+    }
+
+    const normalized = rule.normalize ? rule.normalize(fieldValue) : fieldValue
+
+    if (normalized.length > rule.maxLength) {
+      throw new Error(`Invalid submission: ${field} exceeds ${rule.maxLength} characters`)
+    }
+
+    if (rule.pattern && !rule.pattern.test(normalized)) {
+      throw new Error(`Invalid submission: ${field} has an unexpected format`)
+    }
+
+    submission[field] = normalized
+  }
+
+  if (!DIFFICULTIES.includes(input.difficulty as (typeof DIFFICULTIES)[number])) {
+    throw new Error('Invalid submission: difficulty must be Easy, Medium or Hard')
+  }
+  submission.difficulty = input.difficulty
+
+  if (!Array.isArray(input.tags) || input.tags.length > MAX_TAGS) {
+    throw new Error(`Invalid submission: tags must be a list of at most ${MAX_TAGS} entries`)
+  }
+  if (input.tags.some(tag => typeof tag !== 'string' || tag.length > 60)) {
+    throw new Error('Invalid submission: tags must be short strings')
+  }
+  submission.tags = [...input.tags]
+
+  if (isNaN(new Date(submission.timestamp as string).getTime())) {
+    throw new Error('Invalid submission: timestamp is not a valid date')
+  }
+
+  return submission as unknown as LeetCodeSubmission
+}
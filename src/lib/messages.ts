@@ -0,0 +1,98 @@
+import type { Runtime } from 'webextension-polyfill'
+import { getBrowser } from './browser'
+import {
+  CommitPayload,
+  DeviceFlowState,
+  ExtensionConfig,
+  GitHubConfig,
+  ImportState,
+  LeetCodeSubmission,
+} from './types'
+
+/**
+ * Message contract between the background worker and the extension pages.
+ * Every message the worker handles is listed here together with its response.
+ */
+
+export interface AuthWithPATPayload {
+  token: string
+  owner?: string
+  repository: string
+  branch: string
+}
+
+export type UpsertFilePayload = Omit<CommitPayload, 'branch'> & {
+  branch?: string
+}
+
+export type ExtensionMessage =
+  | { type: 'SUBMISSION_ACCEPTED'; submission: LeetCodeSubmission }
+  | { type: 'INJECT_PAGE_SCRIPT'; nonce: string }
+  | { type: 'GET_STATUS' }
+  | { type: 'GET_SETTINGS' }
+  | { type: 'TEST_CONNECTION' }
+  | { type: 'AUTH_WITH_PAT'; payload: AuthWithPATPayload }
+  | { type: 'START_DEVICE_FLOW' }
+  | { type: 'CANCEL_DEVICE_FLOW' }
+  | { type: 'GET_DEVICE_FLOW_STATUS' }
+  | { type: 'UPSERT_FILE'; payload: UpsertFilePayload }
+  | { type: 'PROCESS_QUEUE' }
+  | { type: 'REBUILD_SOLUTIONS_INDEX' }
+  | { type: 'START_IMPORT' }
+  | { type: 'CANCEL_IMPORT' }
+  | { type: 'GET_IMPORT_STATUS' }
+
+export type MessageType = ExtensionMessage['type']
+
+export type MessageOf<T extends MessageType> = Extract<ExtensionMessage, { type: T }>
+
+export interface ExtensionStatus {
+  configured: boolean
+  processing: boolean
+  queueSize: number
+  deadLetterCount: number
+}
+
+export interface MessageResponses {
+  SUBMISSION_ACCEPTED: { success: boolean }
+  INJECT_PAGE_SCRIPT: { success: boolean }
+  GET_STATUS: ExtensionStatus
+  GET_SETTINGS: { settings: ExtensionConfig['settings'] }
+  TEST_CONNECTION: { success: boolean; error?: string }
+  AUTH_WITH_PAT: { success: boolean; error?: string; config?: GitHubConfig }
+  START_DEVICE_FLOW: { success: boolean; error?: string; state?: DeviceFlowState }
+  CANCEL_DEVICE_FLOW: { success: boolean }
+  /** `available` is false when the build has no OAuth client ID */
+  GET_DEVICE_FLOW_STATUS: { state: DeviceFlowState | null; available: boolean }
+  UPSERT_FILE: { success: boolean; error?: string; commitUrl?: string }
+  PROCESS_QUEUE: { success: boolean; committed: number; deadLettered: number }
+  REBUILD_SOLUTIONS_INDEX: { success: boolean; count: number }
+  START_IMPORT: { success: boolean; state: ImportState }
+  CANCEL_IMPORT: { success: boolean }
+  GET_IMPORT_STATUS: { state: ImportState | null; running: boolean }
+}
+
+/**
+ * One handler per message type, each checked against its own message and
+ * response, so a message cannot be added or changed without its handler
+ */
+export type MessageHandlers = {
+  [T in MessageType]: (
+    message: MessageOf<T>,
+    sender: Runtime.MessageSender
+  ) => Promise<MessageResponses[T]>
+}
+
+/**
+ * What a sender actually receives: the worker answers `{ error }` instead of
+ * the regular response when handling fails or the type is unknown
+ */
+export type MessageResponse<T extends MessageType> = Partial<MessageResponses[T]> & {
+  error?: string
+}
+
+export async function sendMessage<M extends ExtensionMessage>(
+  message: M
+): Promise<MessageResponse<M['type']> | undefined> {
+  return await getBrowser().runtime.sendMessage(message)
+}
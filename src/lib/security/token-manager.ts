@@ -1,6 +1,8 @@
 import { secureStorage } from './secure-storage'
 import { getBrowser } from '../browser'
 import { GitHubConfig } from '../types'
+import { DeviceFlowError, GitHubDeviceFlow } from '../auth/device-flow'
+import { githubTransport } from '../github/transport'
 
 /**
  * Secure token manager implementing best practices for OAuth token handling
@@ -10,6 +12,8 @@ export class TokenManager {
   private browser = getBrowser()
   private tokenValidationCache = new Map<string, { valid: boolean; expires: number }>()
   private readonly CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+  private readonly EXPIRY_MARGIN = 60 * 1000 // refresh OAuth tokens 1 minute early
+  private refreshing: Promise<string | null> | null = null
   private readonly STORAGE_KEYS = {
     GITHUB_TOKEN: 'secure:github:access_token',
     GITHUB_REFRESH: 'secure:github:refresh_token',
@@ -30,6 +34,9 @@ export class TokenManager {
       // Store refresh token persistently (encrypted)
       if (config.refreshToken) {
         await secureStorage.setSecureData(this.STORAGE_KEYS.GITHUB_REFRESH, config.refreshToken)
+      } else if (config.authMethod === 'pat') {
+        // Drop the refresh token of an earlier OAuth sign-in
+        await this.browser.storage.local.remove(this.STORAGE_KEYS.GITHUB_REFRESH)
       }
 
       // Store configuration (without tokens)
@@ -44,6 +51,8 @@ export class TokenManager {
       const metadata = {
         storedAt: Date.now(),
         tokenExpiry: config.tokenExpiry,
+        refreshTokenExpiry: config.refreshTokenExpiry,
+        authMethod: config.authMethod,
         lastValidated: Date.now(),
       }
       await secureStorage.setSecureData(this.STORAGE_KEYS.TOKEN_METADATA, JSON.stringify(metadata))
@@ -65,6 +74,12 @@ export class TokenManager {
       // First try session storage (fastest, most secure)
       let token = await secureStorage.getSessionData(this.STORAGE_KEYS.GITHUB_TOKEN)
 
+      if (token && (await this.isOAuthTokenExpiring())) {
+        console.log('🔍 OAuth token is about to expire, refreshing...')
+        await secureStorage.clearSessionData(this.STORAGE_KEYS.GITHUB_TOKEN)
+        token = null
+      }
+
       if (token) {
         console.log('🔍 Found token in session storage, validating...')
         // Validate token if we have it in session
@@ -112,6 +127,12 @@ export class TokenManager {
    */
   async getGitHubConfig(): Promise<GitHubConfig | null> {
     try {
+      if (!(await secureStorage.getSecureData(this.STORAGE_KEYS.GITHUB_CONFIG))) {
+        return null
+      }
+
+      // Read the token first: an OAuth refresh rewrites the stored config
+      const accessToken = (await this.getGitHubToken()) || ''
       const configData = await secureStorage.getSecureData(this.STORAGE_KEYS.GITHUB_CONFIG)
       if (!configData) {
         return null
@@ -120,7 +141,7 @@ export class TokenManager {
       const config: GitHubConfig = JSON.parse(configData)
 
       // Add tokens back from secure storage
-      config.accessToken = (await this.getGitHubToken()) || ''
+      config.accessToken = accessToken
       config.refreshToken =
         (await secureStorage.getSecureData(this.STORAGE_KEYS.GITHUB_REFRESH)) || ''
 
@@ -171,13 +192,7 @@ export class TokenManager {
    */
   private async validateTokenWithGitHub(token: string): Promise<boolean> {
     try {
-      const response = await fetch('https://api.github.com/rate_limit', {
-        headers: {
-          Authorization: `token ${token}`,
-          Accept: 'application/vnd.github.v3+json',
-          'User-Agent': 'LeetShip (+webextension)',
-        },
-      })
+      const response = await githubTransport.request('/rate_limit', { token })
 
       return response.ok
     } catch (error) {
@@ -200,6 +215,11 @@ export class TokenManager {
 
       const metadata = JSON.parse(metadataStr)
 
+      // OAuth tokens expire and are renewed with the refresh token
+      if (metadata.authMethod === 'oauth') {
+        return await this.refreshAccessToken()
+      }
+
       // Check if token should still be valid
       if (metadata.tokenExpiry && Date.now() > metadata.tokenExpiry) {
         console.warn('⚠️ Stored token has expired')
@@ -230,6 +250,73 @@ export class TokenManager {
     }
   }
 
+  /**
+   * Whether the stored token is an OAuth token that expires within the margin
+   */
+  private async isOAuthTokenExpiring(): Promise<boolean> {
+    const metadata = await this.getTokenMetadata()
+    return (
+      metadata?.authMethod === 'oauth' &&
+      !!metadata.tokenExpiry &&
+      Date.now() > metadata.tokenExpiry - this.EXPIRY_MARGIN
+    )
+  }
+
+  /**
+   * Exchange the OAuth refresh token for a new access token. Concurrent
+   * callers share one request, as GitHub invalidates a refresh token once used.
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  private async performRefresh(): Promise<string | null> {
+    const [refreshToken, configData, metadata] = await Promise.all([
+      secureStorage.getSecureData(this.STORAGE_KEYS.GITHUB_REFRESH),
+      secureStorage.getSecureData(this.STORAGE_KEYS.GITHUB_CONFIG),
+      this.getTokenMetadata(),
+    ])
+
+    if (metadata?.refreshTokenExpiry && Date.now() > metadata.refreshTokenExpiry) {
+      console.warn('⚠️ OAuth session has expired, sign in again')
+      await this.clearAllTokens()
+      return null
+    }
+
+    // Tokens of apps without token expiration come without a refresh token
+    if (!refreshToken || !configData) {
+      console.log('🔍 No OAuth refresh token found in persistent storage')
+      return null
+    }
+
+    try {
+      const tokens = await new GitHubDeviceFlow().refresh(refreshToken)
+      const config: GitHubConfig = JSON.parse(configData)
+
+      await this.storeGitHubToken({
+        ...config,
+        ...tokens,
+        refreshToken: tokens.refreshToken || refreshToken,
+        authMethod: 'oauth',
+      })
+
+      console.log('✅ OAuth token refreshed')
+      return tokens.accessToken
+    } catch (error) {
+      console.error('❌ Failed to refresh OAuth token:', error)
+      // Keep the refresh token through network errors, drop it once GitHub rejects it
+      if (error instanceof DeviceFlowError && error.code === 'bad_refresh_token') {
+        await this.clearAllTokens()
+      }
+      return null
+    }
+  }
+
   /**
    * Clear all stored tokens and related data
    */
@@ -291,7 +378,9 @@ export class TokenManager {
 
       // Check if stored token is expired
       const metadata = await this.getTokenMetadata()
-      if (metadata?.tokenExpiry && now > metadata.tokenExpiry) {
+      const expiry =
+        metadata?.authMethod === 'oauth' ? metadata.refreshTokenExpiry : metadata?.tokenExpiry
+      if (expiry && now > expiry) {
         console.warn('⚠️ Performing security cleanup: token expired')
         await this.clearAllTokens()
       }
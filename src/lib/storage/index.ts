@@ -1,40 +1,50 @@
 import { getBrowser } from '../browser'
-import { ExtensionConfig, QueuedCommit } from '../types'
+import {
+  DeadLetterCommit,
+  ExtensionConfig,
+  ImportState,
+  LastSubmission,
+  QueuedCommit,
+  SolutionIndexEntry,
+  SolutionsIndex,
+} from '../types'
 import CryptoJS from 'crypto-js'
 import { tokenManager } from '../security/token-manager'
+import { DEFAULT_PRESET_ID, getDefaultPreset } from '../templates/presets'
 
 const STORAGE_KEYS = {
   CONFIG: 'LeetShip:config',
   QUEUE: 'LeetShip:queue',
+  DEAD_LETTER: 'LeetShip:dead_letter',
   AUTH_STATE: 'LeetShip:auth_state',
   PROCESSED_SUBMISSIONS: 'LeetShip:processed',
+  SOLUTIONS_INDEX: 'LeetShip:solutions_index',
+  IMPORT_STATE: 'LeetShip:import_state',
+  LAST_SUBMISSION: 'LeetShip:last_submission',
 } as const
 
 const DEFAULT_CONFIG: ExtensionConfig = {
   github: null,
   templates: {
-    commitMessage:
-      'feat(leetcode): AC {{id}}. {{title}} [{{difficulty}}] ({{lang}}) — runtime: {{runtime}}, memory: {{memory}}',
-    readme: `# {{title}}
-
-[LeetCode Problem]({{link}})
-
-**Difficulty:** {{difficulty}}
-**Tags:** {{tags}}
-**Language:** {{lang}}
-**Runtime:** {{runtime}}
-**Memory:** {{memory}}
-**Submitted:** {{timestamp}}
-`,
-    folderLayout: '{{difficulty}}/{{id}}-{{slug}}',
+    ...getDefaultPreset().templates,
+    preset: DEFAULT_PRESET_ID,
+    customPresets: [],
   },
   settings: {
     includeProblemStatement: false,
+    problemStatementFormat: 'markdown',
+    statementImageLimit: 1024,
+    includeSolutionHeader: false,
     sanitizeFilenames: true,
     skipDuplicates: true,
     autoRetry: true,
     privateRepoWarning: true,
     telemetry: false,
+    solutionStrategy: 'overwrite',
+    judgeTimeout: 120,
+    deliveryMode: 'direct',
+    pullRequestGrouping: 'daily',
+    autoMerge: false,
   },
   version: 1,
 }
@@ -72,7 +82,12 @@ export class StorageManager {
         return DEFAULT_CONFIG
       }
 
-      return { ...DEFAULT_CONFIG, ...stored }
+      return {
+        ...DEFAULT_CONFIG,
+        ...stored,
+        templates: { ...DEFAULT_CONFIG.templates, ...stored.templates },
+        settings: { ...DEFAULT_CONFIG.settings, ...stored.settings },
+      }
     } catch (error) {
       console.error('Failed to get config:', error)
       return DEFAULT_CONFIG
@@ -178,8 +193,12 @@ export class StorageManager {
       // Clear other potentially corrupted data
       await this.browser.storage.local.remove([
         STORAGE_KEYS.QUEUE,
+        STORAGE_KEYS.DEAD_LETTER,
         STORAGE_KEYS.AUTH_STATE,
         STORAGE_KEYS.PROCESSED_SUBMISSIONS,
+        STORAGE_KEYS.SOLUTIONS_INDEX,
+        STORAGE_KEYS.IMPORT_STATE,
+        STORAGE_KEYS.LAST_SUBMISSION,
       ])
     } catch (error) {
       console.error('Failed to clear corrupted data:', error)
@@ -262,6 +281,68 @@ export class StorageManager {
     }
   }
 
+  async getDeadLetters(): Promise<DeadLetterCommit[]> {
+    try {
+      const result = await this.browser.storage.local.get(STORAGE_KEYS.DEAD_LETTER)
+      return (result && result[STORAGE_KEYS.DEAD_LETTER]) || []
+    } catch (error) {
+      console.error('Failed to get dead letters:', error)
+      return []
+    }
+  }
+
+  /**
+   * Move a queued commit to the dead-letter list
+   */
+  async moveToDeadLetters(commit: QueuedCommit, reason: DeadLetterCommit['reason']): Promise<void> {
+    try {
+      const deadLetters = await this.getDeadLetters()
+      deadLetters.push({ ...commit, failedAt: Date.now(), reason })
+      await this.browser.storage.local.set({
+        [STORAGE_KEYS.DEAD_LETTER]: deadLetters,
+      })
+      await this.removeFromCommitQueue(commit.id)
+    } catch (error) {
+      console.error('Failed to move commit to dead letters:', error)
+      throw error
+    }
+  }
+
+  async removeFromDeadLetters(commitId: string): Promise<void> {
+    try {
+      const deadLetters = await this.getDeadLetters()
+      await this.browser.storage.local.set({
+        [STORAGE_KEYS.DEAD_LETTER]: deadLetters.filter(commit => commit.id !== commitId),
+      })
+    } catch (error) {
+      console.error('Failed to remove from dead letters:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Put a dead-lettered commit back into the queue with a fresh retry budget
+   */
+  async requeueDeadLetter(commitId: string): Promise<void> {
+    try {
+      const deadLetter = (await this.getDeadLetters()).find(commit => commit.id === commitId)
+
+      if (deadLetter) {
+        await this.addToCommitQueue({
+          id: deadLetter.id,
+          submission: deadLetter.submission,
+          timestamp: deadLetter.timestamp,
+          retryCount: 0,
+          lastError: deadLetter.lastError,
+        })
+        await this.removeFromDeadLetters(commitId)
+      }
+    } catch (error) {
+      console.error('Failed to requeue dead letter:', error)
+      throw error
+    }
+  }
+
   async getProcessedSubmissions(): Promise<Set<string>> {
     try {
       const result = await this.browser.storage.local.get(STORAGE_KEYS.PROCESSED_SUBMISSIONS)
@@ -286,6 +367,108 @@ export class StorageManager {
     }
   }
 
+  async getSolutionsIndex(): Promise<SolutionsIndex | null> {
+    try {
+      const result = await this.browser.storage.local.get(STORAGE_KEYS.SOLUTIONS_INDEX)
+      return (result && result[STORAGE_KEYS.SOLUTIONS_INDEX]) || null
+    } catch (error) {
+      console.error('Failed to get solutions index:', error)
+      return null
+    }
+  }
+
+  async setSolutionsIndex(index: SolutionsIndex): Promise<void> {
+    try {
+      await this.browser.storage.local.set({
+        [STORAGE_KEYS.SOLUTIONS_INDEX]: index,
+      })
+    } catch (error) {
+      console.error('Failed to set solutions index:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Insert or replace the entry stored under the same path, among the pending
+   * entries of `pullRequestBranch` when one is given. An index that was built
+   * for another repository is discarded.
+   */
+  async upsertSolutionIndexEntry(
+    repository: string,
+    entry: SolutionIndexEntry,
+    pullRequestBranch?: string
+  ): Promise<void> {
+    try {
+      const stored = await this.getSolutionsIndex()
+      const index: SolutionsIndex =
+        stored && stored.repository === repository
+          ? stored
+          : { repository, updatedAt: 0, entries: [] }
+      const upsert = (entries: SolutionIndexEntry[]) => [
+        ...entries.filter(existing => existing.path !== entry.path),
+        entry,
+      ]
+
+      await this.setSolutionsIndex(
+        pullRequestBranch
+          ? {
+              ...index,
+              updatedAt: Date.now(),
+              pending: {
+                ...index.pending,
+                [pullRequestBranch]: upsert(index.pending?.[pullRequestBranch] || []),
+              },
+            }
+          : { ...index, updatedAt: Date.now(), entries: upsert(index.entries) }
+      )
+    } catch (error) {
+      console.error('Failed to update solutions index:', error)
+      throw error
+    }
+  }
+
+  async getImportState(): Promise<ImportState | null> {
+    try {
+      const result = await this.browser.storage.local.get(STORAGE_KEYS.IMPORT_STATE)
+      return (result && result[STORAGE_KEYS.IMPORT_STATE]) || null
+    } catch (error) {
+      console.error('Failed to get import state:', error)
+      return null
+    }
+  }
+
+  async setImportState(state: ImportState): Promise<void> {
+    try {
+      await this.browser.storage.local.set({
+        [STORAGE_KEYS.IMPORT_STATE]: state,
+      })
+    } catch (error) {
+      console.error('Failed to set import state:', error)
+      throw error
+    }
+  }
+
+  async getLastSubmission(): Promise<LastSubmission | null> {
+    try {
+      const result = await this.browser.storage.local.get(STORAGE_KEYS.LAST_SUBMISSION)
+      return (result && result[STORAGE_KEYS.LAST_SUBMISSION]) || null
+    } catch (error) {
+      console.error('Failed to get last submission:', error)
+      return null
+    }
+  }
+
+  async setLastSubmission(lastSubmission: LastSubmission): Promise<void> {
+    try {
+      await this.browser.storage.local.set({
+        [STORAGE_KEYS.LAST_SUBMISSION]: lastSubmission,
+      })
+    } catch (error) {
+      console.error('Failed to set last submission:', error)
+      throw error
+    }
+  }
+
   async setAuthState(state: string): Promise<void> {
     try {
       await this.browser.storage.local.set({
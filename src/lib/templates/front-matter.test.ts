@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest'
+import { LEETSHIP_SCHEMA, parseFrontMatter, serializeFrontMatter } from './front-matter'
+
+const frontMatter = {
+  id: '0001',
+  title: 'Two Sum: "classic"',
+  slug: 'two-sum',
+  difficulty: 'Easy',
+  tags: ['Array', 'Hash Table'],
+  lang: 'python3',
+  runtime: '40 ms',
+  memory: '16.5 MB',
+  submittedAt: '2024-03-05T10:00:00.000Z',
+  link: 'https://leetcode.com/problems/two-sum/',
+  runtimePercentile: '91%',
+}
+
+describe('front matter', () => {
+  it('round-trips through a README', () => {
+    const readme = `${serializeFrontMatter(frontMatter)}\n\n# 1. Two Sum\n`
+
+    expect(parseFrontMatter(readme)).toEqual({
+      ...frontMatter,
+      leetshipSchema: LEETSHIP_SCHEMA,
+      memoryPercentile: undefined,
+    })
+  })
+
+  it('reads schema 0 front matter with an unquoted id and comma separated tags', () => {
+    const readme = [
+      '---',
+      'id: 0001',
+      'slug: two-sum',
+      'difficulty: Easy',
+      'tags: Array, Hash Table',
+      'lang: python3',
+      'submittedAt: 2024-03-05',
+      '---',
+      '',
+    ].join('\r\n')
+
+    expect(parseFrontMatter(readme)).toMatchObject({
+      leetshipSchema: 0,
+      id: '0001',
+      tags: ['Array', 'Hash Table'],
+    })
+  })
+
+  it('returns null for READMEs it did not write', () => {
+    expect(parseFrontMatter('# Notes\n')).toBeNull()
+    expect(parseFrontMatter('---\ntitle: Notes\n---\n')).toBeNull()
+  })
+
+  it('returns null instead of throwing on malformed YAML', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(parseFrontMatter('---\nid: "0001\nslug: [two-sum\n---\n')).toBeNull()
+    expect(parseFrontMatter('---\n\tid: 1\n---\n')).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+import { parseYaml, stringifyYaml, YamlMap, YamlValue } from './yaml'
+
+/**
+ * Version of the front matter layout written into problem READMEs. READMEs
+ * written before the key existed are read as version 0.
+ */
+export const LEETSHIP_SCHEMA = 1
+
+export interface SolutionFrontMatter {
+  leetshipSchema: number
+  id: string
+  title: string
+  slug: string
+  difficulty: string
+  tags: string[]
+  lang: string
+  runtime: string
+  memory: string
+  submittedAt: string
+  link: string
+  runtimePercentile?: string
+  memoryPercentile?: string
+}
+
+const REQUIRED_KEYS = ['id', 'slug', 'difficulty', 'lang', 'submittedAt'] as const
+
+export function serializeFrontMatter(
+  frontMatter: Omit<SolutionFrontMatter, 'leetshipSchema'>
+): string {
+  const data: YamlMap = { leetshipSchema: LEETSHIP_SCHEMA }
+
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (value !== undefined) data[key] = value
+  }
+
+  return `---\n${stringifyYaml(data)}\n---`
+}
+
+/**
+ * Read the front matter of a LeetShip problem README. Returns null when the
+ * content has no front matter, it is not valid YAML or it was not written by
+ * LeetShip.
+ */
+export function parseFrontMatter(content: string): SolutionFrontMatter | null {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/)
+  if (!match) return null
+
+  let data: YamlMap
+  try {
+    data = parseYaml(match[1])
+  } catch (error) {
+    console.error('Failed to parse front matter:', error)
+    return null
+  }
+
+  if (!REQUIRED_KEYS.every(key => toText(data[key]))) {
+    return null
+  }
+
+  return {
+    leetshipSchema: typeof data.leetshipSchema === 'number' ? data.leetshipSchema : 0,
+    id: toId(data.id),
+    title: toText(data.title),
+    slug: toText(data.slug),
+    difficulty: toText(data.difficulty),
+    tags: toList(data.tags),
+    lang: toText(data.lang),
+    runtime: toText(data.runtime),
+    memory: toText(data.memory),
+    submittedAt: toText(data.submittedAt),
+    link: toText(data.link),
+    runtimePercentile: toText(data.runtimePercentile) || undefined,
+    memoryPercentile: toText(data.memoryPercentile) || undefined,
+  }
+}
+
+function toText(value: YamlValue | undefined): string {
+  if (value === undefined || value === null || typeof value === 'object') return ''
+  return String(value)
+}
+
+/** Schema 0 wrote the padded id unquoted, so `0001` reads back as the number 1 */
+function toId(value: YamlValue | undefined): string {
+  return typeof value === 'number' ? String(value).padStart(4, '0') : toText(value)
+}
+
+function toList(value: YamlValue | undefined): string[] {
+  const items = Array.isArray(value) ? value.map(toText) : toText(value).split(',')
+  return items.map(item => item.trim()).filter(Boolean)
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { formatProblemStatement, htmlToMarkdown, htmlToText } from './html-to-markdown'
+
+const statement = [
+  '<p>Given an array <code>nums</code> and an integer <code>target</code>, return <em>indices</em>.</p>',
+  '<p><strong class="example">Example 1:</strong></p>',
+  '<pre><strong>Input:</strong> nums = [2,7], target = 9\n<strong>Output:</strong> [0,1]</pre>',
+  '<ul><li><code>2 &lt;= nums.length &lt;= 10<sup>4</sup></code></li><li>Only one answer</li></ul>',
+].join('')
+
+describe('htmlToMarkdown', () => {
+  it('converts a LeetCode statement', () => {
+    const markdown = htmlToMarkdown(statement)
+
+    expect(markdown).toContain('Given an array `nums` and an integer `target`, return *indices*.')
+    expect(markdown).toContain('**Example 1:**')
+    expect(markdown).toContain('```\nInput: nums = [2,7], target = 9\nOutput: [0,1]\n```')
+    expect(markdown).toContain('- `2 <= nums.length <= 10^4`')
+    expect(markdown).toContain('- Only one answer')
+  })
+
+  it('keeps links and images', () => {
+    expect(htmlToMarkdown('<p><a href="https://x.dev/a">docs</a></p>')).toBe(
+      '[docs](https://x.dev/a)'
+    )
+    expect(htmlToMarkdown('<img alt="tree" src="https://x.dev/t.png">')).toBe(
+      '![tree](https://x.dev/t.png)'
+    )
+  })
+
+  it('tolerates unclosed and stray tags', () => {
+    expect(htmlToMarkdown('<p>one<p>two</span>')).toBe('one\n\ntwo')
+  })
+})
+
+describe('htmlToText', () => {
+  it('drops the markup', () => {
+    expect(htmlToText(statement)).toBe(
+      [
+        'Given an array nums and an integer target, return indices.',
+        '',
+        'Example 1:',
+        '',
+        'Input: nums = [2,7], target = 9',
+        'Output: [0,1]',
+        '',
+        '- 2 <= nums.length <= 10^4',
+        '- Only one answer',
+      ].join('\n')
+    )
+  })
+})
+
+describe('formatProblemStatement', () => {
+  it('returns HTML untouched', () => {
+    expect(formatProblemStatement(statement, 'html')).toBe(statement)
+  })
+})
@@ -0,0 +1,373 @@
+import { ProblemStatementFormat } from '../types'
+
+/**
+ * Converts the HTML LeetCode uses for problem statements into GitHub
+ * flavoured Markdown or plain text. The background service worker has no
+ * DOMParser, so the HTML is parsed here with a small tolerant parser that only
+ * understands the markup LeetCode emits: paragraphs, examples in `<pre>`,
+ * lists, inline code, `<sup>`/`<sub>`, images, links and tables.
+ */
+
+type HtmlNode =
+  | { type: 'text'; value: string }
+  | { type: 'element'; tag: string; attrs: Record<string, string>; children: HtmlNode[] }
+
+type ElementNode = Extract<HtmlNode, { type: 'element' }>
+
+interface RenderContext {
+  mode: 'markdown' | 'text'
+  /** Inside `<pre>`: whitespace is kept and no Markdown is emitted */
+  pre: boolean
+  /** Inside `<code>`: text is not escaped */
+  code: boolean
+}
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'input', 'meta', 'link', 'wbr', 'col', 'source'])
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'pre',
+  'ul',
+  'ol',
+  'li',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'table',
+  'blockquote',
+  'hr',
+  'section',
+])
+
+// Tags closed implicitly when a sibling of the same kind opens
+const SELF_NESTING = new Set(['p', 'li', 'tr', 'td', 'th'])
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  times: '×',
+  minus: '−',
+  hellip: '…',
+  rarr: '→',
+  larr: '←',
+  infin: '∞',
+  middot: '·',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+}
+
+/**
+ * Format a problem statement for a README. `html` returns the statement
+ * untouched.
+ */
+export function formatProblemStatement(html: string, format: ProblemStatementFormat): string {
+  switch (format) {
+    case 'html':
+      return html
+    case 'text':
+      return htmlToText(html)
+    default:
+      return htmlToMarkdown(html)
+  }
+}
+
+export function htmlToMarkdown(html: string): string {
+  return renderBlocks(parseHtml(html), { mode: 'markdown', pre: false, code: false })
+}
+
+export function htmlToText(html: string): string {
+  return renderBlocks(parseHtml(html), { mode: 'text', pre: false, code: false })
+}
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: ElementNode = { type: 'element', tag: '#root', attrs: {}, children: [] }
+  const stack: ElementNode[] = [root]
+  const token =
+    /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g
+
+  let match: RegExpExecArray | null
+  while ((match = token.exec(html))) {
+    const [source, closing, rawTag, rawAttrs] = match
+    const current = stack[stack.length - 1]
+
+    if (source.startsWith('<!--')) continue
+
+    if (!rawTag) {
+      current.children.push({ type: 'text', value: decodeEntities(source) })
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+
+    if (closing) {
+      const index = stack.map(node => node.tag).lastIndexOf(tag)
+      // Stray closing tags are ignored
+      if (index > 0) stack.length = index
+      continue
+    }
+
+    if (SELF_NESTING.has(tag) && current.tag === tag) {
+      stack.pop()
+    }
+
+    const element: ElementNode = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(rawAttrs),
+      children: [],
+    }
+    stack[stack.length - 1].children.push(element)
+
+    if (!VOID_TAGS.has(tag) && !rawAttrs.trim().endsWith('/')) {
+      stack.push(element)
+    }
+  }
+
+  return root.children
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const attribute = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+  let match: RegExpExecArray | null
+  while ((match = attribute.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+
+  return attrs
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1))
+      return code === 0xa0 ? ' ' : String.fromCodePoint(code)
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Render a list of nodes as blocks separated by blank lines. Runs of inline
+ * nodes between block elements form a paragraph.
+ */
+function renderBlocks(nodes: HtmlNode[], context: RenderContext): string {
+  const blocks: string[] = []
+  let inline: HtmlNode[] = []
+
+  const flush = () => {
+    const paragraph = renderParagraph(inline, context)
+    if (paragraph) blocks.push(paragraph)
+    inline = []
+  }
+
+  for (const node of nodes) {
+    if (node.type === 'element' && BLOCK_TAGS.has(node.tag)) {
+      flush()
+      const block = renderBlock(node, context)
+      if (block) blocks.push(block)
+    } else {
+      inline.push(node)
+    }
+  }
+  flush()
+
+  return blocks.join('\n\n')
+}
+
+function renderParagraph(nodes: HtmlNode[], context: RenderContext): string {
+  return renderInline(nodes, context)
+    .replace(/(\\?\n|\s)+$/, '')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .trim()
+}
+
+function renderBlock(node: ElementNode, context: RenderContext): string {
+  const markdown = context.mode === 'markdown'
+
+  switch (node.tag) {
+    case 'pre': {
+      const text = renderInline(node.children, { ...context, pre: true }).replace(/^\n+|\s+$/g, '')
+      if (!markdown) return text
+      const fence = text.includes('```') ? '~~~' : '```'
+      return `${fence}\n${text}\n${fence}`
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context)
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderParagraph(node.children, context)
+      return markdown && text ? `${'#'.repeat(Number(node.tag[1]))} ${text}` : text
+    }
+    case 'blockquote': {
+      const text = renderBlocks(node.children, context)
+      return markdown ? prefixLines(text, '> ', '>') : text
+    }
+    case 'hr':
+      return markdown ? '---' : ''
+    case 'table':
+      return renderTable(node, context)
+    default:
+      return renderBlocks(node.children, context)
+  }
+}
+
+function renderList(node: ElementNode, context: RenderContext): string {
+  const ordered = node.tag === 'ol'
+  const start = Number(node.attrs.start) || 1
+
+  return node.children
+    .filter((child): child is ElementNode => child.type === 'element' && child.tag === 'li')
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- '
+      const body = renderBlocks(item.children, context)
+      return marker + prefixLines(body, ' '.repeat(marker.length), '').trimStart()
+    })
+    .join('\n')
+}
+
+function renderTable(node: ElementNode, context: RenderContext): string {
+  const rows = collectRows(node).map(row =>
+    row.map(cell =>
+      context.mode === 'markdown'
+        ? renderParagraph(cell.children, context).replace(/\\?\n/g, '<br>').replace(/\|/g, '\\|')
+        : renderParagraph(cell.children, context).replace(/\n/g, ' ')
+    )
+  )
+  if (rows.length === 0) return ''
+
+  if (context.mode === 'text') {
+    return rows.map(row => row.join(' | ')).join('\n')
+  }
+
+  const width = Math.max(...rows.map(row => row.length))
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')]
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`
+
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')
+}
+
+function collectRows(node: ElementNode): ElementNode[][] {
+  const rows: ElementNode[][] = []
+
+  for (const child of node.children) {
+    if (child.type !== 'element') continue
+    if (child.tag === 'tr') {
+      rows.push(
+        child.children.filter(
+          (cell): cell is ElementNode =>
+            cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th')
+        )
+      )
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+      rows.push(...collectRows(child))
+    }
+  }
+
+  return rows
+}
+
+function renderInline(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map(node => renderInlineNode(node, context)).join('')
+}
+
+function renderInlineNode(node: HtmlNode, context: RenderContext): string {
+  const markdown = context.mode === 'markdown' && !context.pre
+
+  if (node.type === 'text') {
+    if (context.pre) return node.value
+    const text = node.value.replace(/\s+/g, ' ')
+    return markdown && !context.code ? escapeMarkdown(text) : text
+  }
+
+  const children = () => renderInline(node.children, context)
+
+  switch (node.tag) {
+    case 'br':
+      return markdown ? '\\\n' : '\n'
+    case 'strong':
+    case 'b':
+      return markdown && !context.code ? wrap(children(), '**') : children()
+    case 'em':
+    case 'i':
+      return markdown && !context.code ? wrap(children(), '*') : children()
+    case 'code':
+      return renderCode(node, context)
+    case 'sup':
+    case 'sub': {
+      const text = renderInline(node.children, { ...context, code: true })
+      if (markdown && !context.code) return `<${node.tag}>${text}</${node.tag}>`
+      const mark = node.tag === 'sup' ? '^' : '_'
+      return /^\w+$/.test(text) ? `${mark}${text}` : `${mark}(${text})`
+    }
+    case 'a': {
+      const text = children()
+      const href = node.attrs.href
+      return markdown && href && !context.code ? `[${text || href}](${href})` : text
+    }
+    case 'img': {
+      const alt = node.attrs.alt || ''
+      const src = node.attrs.src || ''
+      if (!src) return alt
+      return markdown ? `![${alt}](${src})` : alt || src
+    }
+    case 'script':
+    case 'style':
+      return ''
+    default:
+      // Block elements nested inside inline content are rendered on their own lines
+      return BLOCK_TAGS.has(node.tag) && !context.pre
+        ? `\n${renderBlock(node, context)}\n`
+        : children()
+  }
+}
+
+function renderCode(node: ElementNode, context: RenderContext): string {
+  const text = renderInline(node.children, { ...context, code: true })
+  if (context.mode !== 'markdown' || context.pre || context.code || !text.trim()) return text
+
+  const fence = text.includes('`') ? '``' : '`'
+  const padding = fence.length > 1 ? ' ' : ''
+  return `${fence}${padding}${text}${padding}${fence}`
+}
+
+/** Emphasis markers must hug the text, so surrounding spaces are moved outside */
+function wrap(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_]/g, '\\$&')
+}
+
+function prefixLines(text: string, prefix: string, emptyPrefix: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? prefix + line : emptyPrefix))
+    .join('\n')
+}
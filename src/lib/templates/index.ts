@@ -1,4 +1,25 @@
-import { LeetCodeSubmission, ProblemDetails } from '../types'
+import { ExtensionConfig, LeetCodeSubmission, ProblemDetails, SolutionVariant } from '../types'
+import { findLanguage, getLanguageExtension } from '../leetcode/languages'
+import { renderTemplate, TemplateIssue, validateTemplate } from './renderer'
+import { applySolutionHeader, stripSolutionHeader } from './solution-header'
+import { formatProblemStatement } from './html-to-markdown'
+import { serializeFrontMatter } from './front-matter'
+
+export { TemplateError } from './renderer'
+export type { TemplateIssue } from './renderer'
+export { LEETSHIP_SCHEMA, parseFrontMatter } from './front-matter'
+export type { SolutionFrontMatter } from './front-matter'
+export {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_ID,
+  exportPresets,
+  findPreset,
+  forkPreset,
+  getDefaultPreset,
+  importPresets,
+  isBuiltInPreset,
+  PresetError,
+} from './presets'
 
 export interface TemplateVariables {
   id: string
@@ -13,6 +34,37 @@ export interface TemplateVariables {
   link: string
   runtimePercentile?: string
   memoryPercentile?: string
+  /** File extension of the language, without the dot */
+  ext: string
+  /** Title as an identifier, e.g. `TwoSum`, for languages that name files after classes */
+  PascalTitle: string
+  /** Slug with underscores, e.g. `two_sum` */
+  snake_slug: string
+}
+
+export type FilenameTemplates = Pick<ExtensionConfig['templates'], 'filename' | 'filenameOverrides'>
+
+export const TEMPLATE_VARIABLES: Array<keyof TemplateVariables> = [
+  'id',
+  'title',
+  'slug',
+  'difficulty',
+  'tags',
+  'lang',
+  'runtime',
+  'memory',
+  'timestamp',
+  'link',
+  'runtimePercentile',
+  'memoryPercentile',
+  'ext',
+  'PascalTitle',
+  'snake_slug',
+]
+
+export interface GeneratedFile {
+  name: string
+  content: string
 }
 
 export class TemplateEngine {
@@ -51,66 +103,138 @@ export class TemplateEngine {
       link: submission.link,
       runtimePercentile: submission.runtimePercentile,
       memoryPercentile: submission.memoryPercentile,
+      ext: getLanguageExtension(submission.language) || 'txt',
+      PascalTitle: this.toPascalCase(submission.title),
+      snake_slug: sanitizedSlug.replace(/-/g, '_'),
     }
   }
 
-  static render(template: string, variables: TemplateVariables): string {
-    let result = template
+  private static toPascalCase(title: string): string {
+    return title
+      .split(/[^A-Za-z0-9]+/)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+  }
 
-    Object.entries(variables).forEach(([key, value]) => {
-      const pattern = new RegExp(`{{${key}}}`, 'g')
-      result = result.replace(pattern, value || '')
-    })
+  /**
+   * Render a template with the shared template language, see ./renderer.
+   * Throws a TemplateError with line and column when the template is invalid.
+   */
+  static render(template: string, variables: TemplateVariables): string {
+    return renderTemplate(template, variables)
+  }
 
-    return result
+  /**
+   * List syntax errors and unknown variables in a template
+   */
+  static validate(template: string): TemplateIssue[] {
+    return validateTemplate(template, TEMPLATE_VARIABLES)
   }
 
+  /**
+   * Render the problem folder. `/` in the template separates folders; other
+   * characters that are not allowed in paths are replaced, and empty, `.` and
+   * `..` segments are dropped.
+   */
   static generateFolderPath(folderTemplate: string, variables: TemplateVariables): string {
     const path = this.render(folderTemplate, variables)
-    return path.replace(/[<>:"/\\|?*]/g, '-').replace(/\/+/g, '/')
+      .split('/')
+      .map(segment => segment.replace(/[<>:"\\|?*\u0000-\u001f]/g, '-').trim())
+      .filter(segment => segment && segment !== '.' && segment !== '..')
+      .join('/')
+
+    return path || `${variables.id}-${variables.slug}`
   }
 
-  static generateFilename(language: string, attempt: number = 1): string {
-    const extensions: { [key: string]: string } = {
-      python: 'py',
-      python3: 'py',
-      java: 'java',
-      javascript: 'js',
-      typescript: 'ts',
-      cpp: 'cpp',
-      'c++': 'cpp',
-      c: 'c',
-      csharp: 'cs',
-      'c#': 'cs',
-      go: 'go',
-      rust: 'rs',
-      ruby: 'rb',
-      php: 'php',
-      swift: 'swift',
-      kotlin: 'kt',
-      scala: 'scala',
-      mysql: 'sql',
-      postgresql: 'sql',
-      oracle: 'sql',
+  /**
+   * Render the solution file name, using the template configured for the
+   * submission's language when there is one. Attempts after the first get a
+   * `_<attempt>` suffix before the extension.
+   */
+  static generateFilename(
+    templates: FilenameTemplates,
+    variables: TemplateVariables,
+    attempt: number = 1
+  ): string {
+    const slug = findLanguage(variables.lang)?.slug
+    const template = (slug && templates.filenameOverrides[slug]) || templates.filename
+
+    const filename =
+      this.render(template, variables)
+        .replace(/[<>:"/\\|?*\u0000-\u001f]/g, '-')
+        .replace(/^[\s.]+|\s+$/g, '') || `solution.${variables.ext}`
+
+    if (attempt <= 1) {
+      return filename
     }
 
-    const ext = extensions[language.toLowerCase()] || 'txt'
-    const suffix = attempt > 1 ? `_${attempt}` : ''
+    const dot = filename.lastIndexOf('.')
+    return dot > 0
+      ? `${filename.slice(0, dot)}_${attempt}${filename.slice(dot)}`
+      : `${filename}_${attempt}`
+  }
+
+  /**
+   * The files committed into a problem folder: the solution itself, with the
+   * optional metadata header, and its README
+   */
+  static generateFiles(
+    config: Pick<ExtensionConfig, 'templates' | 'settings'>,
+    submission: LeetCodeSubmission,
+    filename: string,
+    variants: SolutionVariant[],
+    problemDetails?: ProblemDetails
+  ): GeneratedFile[] {
+    const variables = this.getVariables(submission, problemDetails)
+
+    const problemStatement =
+      config.settings.includeProblemStatement && problemDetails?.content
+        ? formatProblemStatement(problemDetails.content, config.settings.problemStatementFormat)
+        : undefined
 
-    return `solution${suffix}.${ext}`
+    // A header pasted back into LeetCode from the repository is never kept
+    const code = stripSolutionHeader(submission.code)
+
+    return [
+      {
+        name: filename,
+        content: config.settings.includeSolutionHeader
+          ? applySolutionHeader(
+              code,
+              this.render(config.templates.solutionHeader, variables),
+              submission.language
+            )
+          : code,
+      },
+      {
+        name: 'README.md',
+        content: this.generateReadme(
+          config.templates.readme,
+          variables,
+          code,
+          problemStatement,
+          variants
+        ),
+      },
+    ]
   }
 
   static generateReadme(
     template: string,
     variables: TemplateVariables,
     code: string,
-    problemStatement?: string
+    problemStatement?: string,
+    variants: SolutionVariant[] = []
   ): string {
     const codeBlock = this.generateCodeBlock(code, variables.lang)
     const frontMatter = this.generateFrontMatter(variables)
 
     let content = frontMatter + '\n\n' + this.render(template, variables)
 
+    if (variants.length > 1) {
+      content += '\n\n## Submissions\n\n' + this.generateVariantsTable(variants)
+    }
+
     content += '\n\n## Solution\n\n' + codeBlock
 
     if (problemStatement) {
@@ -120,61 +244,42 @@ export class TemplateEngine {
     return content
   }
 
+  private static generateVariantsTable(variants: SolutionVariant[]): string {
+    const rows = variants
+      .slice()
+      .sort(
+        (a, b) => new Date(b.submittedAt || 0).getTime() - new Date(a.submittedAt || 0).getTime()
+      )
+      .map(
+        variant =>
+          `| [${variant.file}](./${variant.file}) | ${variant.lang} | ${variant.runtime} | ${variant.memory} | ${variant.submittedAt ? new Date(variant.submittedAt).toLocaleDateString() : 'N/A'} |`
+      )
+      .join('\n')
+
+    return `| File | Language | Runtime | Memory | Submitted |
+|------|----------|---------|--------|-----------|
+${rows}`
+  }
+
   private static generateFrontMatter(variables: TemplateVariables): string {
-    const tags = variables.tags
-      .split(', ')
-      .map(tag => `"${tag}"`)
-      .join(', ')
-
-    return `---
-id: ${variables.id}
-title: "${variables.title}"
-slug: ${variables.slug}
-difficulty: ${variables.difficulty}
-tags: [${tags}]
-lang: ${variables.lang}
-runtime: "${variables.runtime}"
-memory: "${variables.memory}"
-submittedAt: "${variables.timestamp}"
-link: "${variables.link}"${
-      variables.runtimePercentile
-        ? `
-runtimePercentile: "${variables.runtimePercentile}"`
-        : ''
-    }${
-      variables.memoryPercentile
-        ? `
-memoryPercentile: "${variables.memoryPercentile}"`
-        : ''
-    }
----`
+    return serializeFrontMatter({
+      id: variables.id,
+      title: variables.title,
+      slug: variables.slug,
+      difficulty: variables.difficulty,
+      tags: variables.tags.split(', ').filter(Boolean),
+      lang: variables.lang,
+      runtime: variables.runtime,
+      memory: variables.memory,
+      submittedAt: variables.timestamp,
+      link: variables.link,
+      runtimePercentile: variables.runtimePercentile,
+      memoryPercentile: variables.memoryPercentile,
+    })
   }
 
   private static generateCodeBlock(code: string, language: string): string {
-    const langMap: { [key: string]: string } = {
-      python: 'python',
-      python3: 'python',
-      java: 'java',
-      javascript: 'javascript',
-      typescript: 'typescript',
-      cpp: 'cpp',
-      'c++': 'cpp',
-      c: 'c',
-      csharp: 'csharp',
-      'c#': 'csharp',
-      go: 'go',
-      rust: 'rust',
-      ruby: 'ruby',
-      php: 'php',
-      swift: 'swift',
-      kotlin: 'kotlin',
-      scala: 'scala',
-      mysql: 'sql',
-      postgresql: 'sql',
-      oracle: 'sql',
-    }
-
-    const lang = langMap[language.toLowerCase()] || language.toLowerCase()
+    const lang = findLanguage(language)?.fence || language.toLowerCase()
 
     return '```' + lang + '\n' + code + '\n```'
   }
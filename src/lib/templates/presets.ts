@@ -0,0 +1,319 @@
+import { PresetTemplates, TemplatePreset } from '../types'
+
+/**
+ * Built-in template presets. A preset sets the folder layout, file names,
+ * problem README, commit message and repository README together; users fork
+ * one into a custom preset to change it, and share custom presets as JSON.
+ */
+
+export const DEFAULT_PRESET_ID = 'leetship'
+
+// Version of the JSON written by exportPresets
+const EXPORT_VERSION = 1
+
+const SOLUTION_HEADER = `{{id}}. {{title}}
+{{link}}
+Difficulty: {{difficulty}}
+Runtime: {{runtime}}, Memory: {{memory}}
+Submitted: {{timestamp | date:"YYYY-MM-DD"}}`
+
+const STATS_SECTION = `## Statistics
+
+| Difficulty | Count |
+|------------|-------|
+| Easy | 0 |
+| Medium | 0 |
+| Hard | 0 |
+| **Total** | **0** |`
+
+const LATEST_SECTION = `## Latest Submissions
+
+<!-- LeetShip:latest-submissions -->
+<!-- /LeetShip:latest-submissions -->`
+
+const SOLUTIONS_SECTION = `## All Solutions
+
+<!-- LeetShip:solutions-table -->
+<!-- /LeetShip:solutions-table -->`
+
+const ROOT_README = `# LeetCode Solutions
+
+This repository contains my LeetCode solutions, automatically synced by LeetShip.
+
+${STATS_SECTION}
+
+${LATEST_SECTION}
+
+${SOLUTIONS_SECTION}
+
+---
+
+*Generated with [LeetShip](https://github.com/leetship/extension) - Automatically commit your accepted LeetCode submissions to GitHub*
+`
+
+export const BUILT_IN_PRESETS: TemplatePreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: 'LeetShip',
+    description: 'Problems grouped by difficulty, with a metadata README and a statistics page.',
+    templates: {
+      commitMessage:
+        'feat(leetcode): AC {{id}}. {{title}} [{{difficulty}}] ({{lang}}) — runtime: {{runtime}}, memory: {{memory}}',
+      readme: `# {{title}}
+
+[LeetCode Problem]({{link}})
+
+**Difficulty:** {{difficulty}}
+**Tags:** {{tags}}
+**Language:** {{lang}}
+**Runtime:** {{runtime}}
+**Memory:** {{memory}}
+**Submitted:** {{timestamp}}
+`,
+      folderLayout: '{{difficulty}}/{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: 'solution.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: ROOT_README,
+    },
+  },
+  {
+    id: 'leethub',
+    name: 'LeetHub compatible',
+    description:
+      'Same folder names, file names and commit messages as LeetHub, so an existing LeetHub repository keeps its layout.',
+    templates: {
+      commitMessage:
+        'Time: {{runtime}} ({{runtimePercentile | default:"N/A"}}), Space: {{memory}} ({{memoryPercentile | default:"N/A"}}) - LeetHub',
+      readme: '<h2><a href="{{link}}">{{id}}. {{title}}</a></h2><h3>{{difficulty}}</h3><hr>\n',
+      folderLayout: '{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: '{{id}}-{{slug}}.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: `# LeetCode
+
+Collection of LeetCode questions to ace the coding interview! - Synced by LeetShip
+
+${SOLUTIONS_SECTION}
+`,
+    },
+  },
+  {
+    id: 'flat',
+    name: 'Flat',
+    description:
+      'Every problem in its own folder at the top of the repository, with a short README.',
+    templates: {
+      commitMessage: 'Add {{id}}. {{title}} ({{lang}})',
+      readme: `# {{id}}. {{title}}
+
+{{difficulty}} · {{lang}} · [LeetCode]({{link}})
+`,
+      folderLayout: '{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: 'solution.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: `# LeetCode Solutions
+
+${STATS_SECTION}
+
+${SOLUTIONS_SECTION}
+`,
+    },
+  },
+  {
+    id: 'by-topic',
+    name: 'By topic',
+    description:
+      'Problems grouped by their first LeetCode tag (array, dynamic-programming, ...), for studying one topic at a time.',
+    templates: {
+      commitMessage: '{{tags | first | default:"misc"}}: {{id}}. {{title}} ({{lang}})',
+      readme: `# {{id}}. {{title}}
+
+[LeetCode Problem]({{link}}) · {{difficulty}}
+
+**Topics:** {{#each tags}}\`{{this}}\` {{/each}}
+**Runtime:** {{runtime}}{{#if runtimePercentile}} (beats {{runtimePercentile}}){{/if}}
+**Memory:** {{memory}}{{#if memoryPercentile}} (beats {{memoryPercentile}}){{/if}}
+`,
+      folderLayout: '{{tags | first | default:"uncategorized"}}/{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: 'solution.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: ROOT_README,
+    },
+  },
+  {
+    id: 'obsidian',
+    name: 'Obsidian vault',
+    description:
+      'Notes for an Obsidian vault: a callout with the problem details, nested #leetcode tags and room for your own notes.',
+    templates: {
+      commitMessage: 'leetcode: {{id}}. {{title}} ({{lang}})',
+      readme: `# {{id}}. {{title}}
+
+> [!info] [{{title}}]({{link}})
+> Difficulty: {{difficulty}} · Language: {{lang}}
+> Runtime: {{runtime}} · Memory: {{memory}}
+> Solved: {{timestamp | date:"YYYY-MM-DD"}}
+
+#leetcode/{{difficulty}} {{#each tags}}#leetcode/{{this}} {{/each}}
+
+## Notes
+`,
+      folderLayout: 'LeetCode/{{difficulty}}/{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: 'solution.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: `# LeetCode
+
+${STATS_SECTION}
+
+${LATEST_SECTION}
+`,
+    },
+  },
+  {
+    id: 'docusaurus',
+    name: 'Docusaurus',
+    description:
+      'Problem pages under docs/, grouped by difficulty, using Docusaurus admonitions. The front matter title and tags are read by Docusaurus.',
+    templates: {
+      commitMessage: 'docs(leetcode): {{id}}. {{title}} ({{lang}})',
+      readme: `# {{id}}. {{title}}
+
+:::info
+
+[View on LeetCode]({{link}}) · **{{difficulty}}** · {{lang}} · {{runtime}} · {{memory}}
+
+:::
+`,
+      folderLayout: 'docs/{{difficulty}}/{{id}}-{{slug}}',
+      solutionHeader: SOLUTION_HEADER,
+      filename: 'solution.{{ext}}',
+      filenameOverrides: {},
+      rootReadme: ROOT_README,
+    },
+  },
+]
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PresetError'
+  }
+}
+
+export function getDefaultPreset(): TemplatePreset {
+  return BUILT_IN_PRESETS[0]
+}
+
+/** Look a preset up by id among the built-in presets and the given custom ones */
+export function findPreset(
+  id: string,
+  customPresets: TemplatePreset[]
+): TemplatePreset | undefined {
+  return [...BUILT_IN_PRESETS, ...customPresets].find(preset => preset.id === id)
+}
+
+export function isBuiltInPreset(id: string): boolean {
+  return BUILT_IN_PRESETS.some(preset => preset.id === id)
+}
+
+/** Copy the templates of a preset into a new custom preset */
+export function forkPreset(templates: PresetTemplates, name: string): TemplatePreset {
+  return {
+    id: createPresetId(),
+    name,
+    description: 'Custom preset',
+    templates: copyTemplates(templates),
+  }
+}
+
+export function exportPresets(presets: TemplatePreset[]): string {
+  return JSON.stringify(
+    {
+      leetshipPresets: EXPORT_VERSION,
+      presets: presets.map(({ name, description, templates }) => ({
+        name,
+        description,
+        templates,
+      })),
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Read presets exported by `exportPresets`. A single preset object or an array
+ * of presets is accepted too. Templates missing from a preset are taken from
+ * the default preset; every imported preset gets a new id. Throws a
+ * PresetError describing the first problem found.
+ */
+export function importPresets(json: string): TemplatePreset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new PresetError('The file is not valid JSON')
+  }
+
+  const entries = isObject(data) && 'presets' in data ? data.presets : data
+  const list = Array.isArray(entries) ? entries : [entries]
+
+  if (list.length === 0) {
+    throw new PresetError('The file contains no presets')
+  }
+
+  return list.map((entry, index) => readPreset(entry, index + 1))
+}
+
+function readPreset(entry: unknown, position: number): TemplatePreset {
+  if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new PresetError(`Preset ${position} has no name`)
+  }
+  if (!isObject(entry.templates)) {
+    throw new PresetError(`Preset "${entry.name}" has no templates`)
+  }
+
+  const defaults = getDefaultPreset().templates
+  const templates = copyTemplates(defaults)
+
+  for (const key of Object.keys(defaults) as Array<keyof PresetTemplates>) {
+    const value = entry.templates[key]
+    if (value === undefined) continue
+
+    if (key === 'filenameOverrides') {
+      if (!isObject(value) || Object.values(value).some(item => typeof item !== 'string')) {
+        throw new PresetError(
+          `Preset "${entry.name}": filenameOverrides must map languages to text`
+        )
+      }
+      templates.filenameOverrides = { ...(value as Record<string, string>) }
+    } else if (typeof value === 'string') {
+      templates[key] = value
+    } else {
+      throw new PresetError(`Preset "${entry.name}": ${key} must be text`)
+    }
+  }
+
+  return {
+    id: createPresetId(),
+    name: entry.name.trim(),
+    description: typeof entry.description === 'string' ? entry.description : '',
+    templates,
+  }
+}
+
+function copyTemplates(templates: PresetTemplates): PresetTemplates {
+  return { ...templates, filenameOverrides: { ...templates.filenameOverrides } }
+}
+
+function createPresetId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
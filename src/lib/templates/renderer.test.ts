@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { parseTemplate, renderTemplate, TemplateError, validateTemplate } from './renderer'
+
+describe('renderTemplate', () => {
+  it('renders variables and filters left to right', () => {
+    expect(renderTemplate('{{id | pad:4}}-{{title | slugify | upper}}', { id: 1, title: 'Two Sum' }))
+      .toBe('0001-TWO-SUM')
+  })
+
+  it('renders missing variables as empty text', () => {
+    expect(renderTemplate('[{{missing}}]', {})).toBe('[]')
+  })
+
+  it('renders if/else blocks', () => {
+    const template = '{{#if runtimePercentile}}beats {{runtimePercentile}}{{else}}n/a{{/if}}'
+    expect(renderTemplate(template, { runtimePercentile: '91%' })).toBe('beats 91%')
+    expect(renderTemplate(template, { runtimePercentile: '' })).toBe('n/a')
+  })
+
+  it('loops over arrays and comma separated strings', () => {
+    const template = '{{#each tags}}{{@index}}:{{this}} {{/each}}'
+    expect(renderTemplate(template, { tags: ['Array', 'Hash Table'] })).toBe(
+      '0:Array 1:Hash Table '
+    )
+    expect(renderTemplate(template, { tags: 'Array, Hash Table' })).toBe('0:Array 1:Hash Table ')
+  })
+
+  it('formats dates', () => {
+    expect(
+      renderTemplate('{{timestamp | date:"YYYY-MM"}}', { timestamp: '2024-03-05T10:00:00Z' })
+    ).toBe('2024-03')
+  })
+
+  it('does not resolve variables or filters from the prototype', () => {
+    expect(renderTemplate('{{constructor}}{{toString}}', {})).toBe('')
+    expect(() => renderTemplate('{{title | constructor}}', { title: 'x' })).toThrow(
+      'Unknown filter "constructor"'
+    )
+  })
+})
+
+describe('parseTemplate errors', () => {
+  const errorOf = (template: string) => {
+    try {
+      parseTemplate(template)
+    } catch (error) {
+      if (error instanceof TemplateError) return error
+      throw error
+    }
+    throw new Error('Expected a TemplateError')
+  }
+
+  it('points at an unclosed tag', () => {
+    const error = errorOf('line one\n  {{title')
+    expect(error.reason).toBe('Unclosed tag, expected "}}"')
+    expect([error.line, error.column]).toEqual([2, 3])
+  })
+
+  it('reports unclosed and mismatched blocks', () => {
+    expect(errorOf('{{#if title}}x').reason).toBe('Unclosed {{#if}}')
+    expect(errorOf('{{#each tags}}x{{/if}}').reason).toBe('Expected {{/each}} but found {{/if}}')
+    expect(errorOf('{{/if}}').reason).toBe('Unexpected {{/if}}')
+    expect(errorOf('{{#if a}}{{else}}{{else}}{{/if}}').reason).toBe('Unexpected {{else}}')
+  })
+
+  it('rejects unknown blocks, filters and bad arguments', () => {
+    expect(errorOf('{{#with title}}{{/with}}').reason).toBe('Unknown block "#with"')
+    expect(errorOf('{{title | shout}}').reason).toBe('Unknown filter "shout"')
+    expect(errorOf('{{title | pad}}').reason).toBe('Filter "pad" expects 1 argument(s)')
+    expect(errorOf('{{title | pad:four}}').reason).toBe('Invalid filter argument four')
+    expect(errorOf('{{}}').reason).toBe('Empty tag')
+    expect(errorOf('{{a.b}}').reason).toBe('Invalid variable name "a.b"')
+  })
+})
+
+describe('validateTemplate', () => {
+  it('reports unknown variables and loop variables outside #each', () => {
+    expect(validateTemplate('{{title}} {{nope}} {{this}}', ['title'])).toEqual([
+      { message: 'Unknown variable "nope"', line: 1, column: 11 },
+      { message: '{{this}} can only be used inside {{#each}}', line: 1, column: 20 },
+    ])
+  })
+
+  it('reports a syntax error as a single issue', () => {
+    expect(validateTemplate('{{#if title}}', ['title'])).toEqual([
+      { message: 'Unclosed {{#if}}', line: 1, column: 1 },
+    ])
+  })
+})
@@ -0,0 +1,411 @@
+/**
+ * Small template language shared by the commit message, folder layout and
+ * README templates.
+ *
+ *   {{title}}                         variable
+ *   {{timestamp | date:"YYYY-MM"}}    filters, applied left to right
+ *   {{#if runtimePercentile}}…{{else}}…{{/if}}
+ *   {{#each tags}}`{{this}}` {{/each}}
+ *   {{tags | first}}                  first item of a list
+ *
+ * Inside `#each`, `{{this}}` is the current item and `{{@index}}` its
+ * position. Lists can be arrays or comma separated strings.
+ */
+
+export type TemplateValue = string | number | string[] | undefined | null
+
+export type TemplateContext = { [key: string]: TemplateValue }
+
+export class TemplateError extends Error {
+  constructor(
+    public reason: string,
+    public line: number,
+    public column: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`)
+    this.name = 'TemplateError'
+  }
+}
+
+interface Position {
+  line: number
+  column: number
+}
+
+interface Filter {
+  name: string
+  args: Array<string | number>
+}
+
+interface Expression {
+  path: string
+  filters: Filter[]
+  position: Position
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; expression: Expression; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[] }
+
+type FilterFn = (value: TemplateValue, args: Array<string | number>) => TemplateValue
+
+export const FILTERS: Record<string, FilterFn> = {
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  slugify: value =>
+    toText(value)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, ''),
+  first: value => toList(value)[0] ?? '',
+  pad: (value, [width]) => toText(value).padStart(Number(width) || 0, '0'),
+  default: (value, [fallback]) => (isTruthy(value) ? value : String(fallback ?? '')),
+  date: (value, [format]) => formatDate(toText(value), String(format ?? 'YYYY-MM-DD')),
+}
+
+const FILTER_ARITY: Record<string, number> = {
+  upper: 0,
+  lower: 0,
+  slugify: 0,
+  first: 0,
+  pad: 1,
+  default: 1,
+  date: 1,
+}
+
+const IDENTIFIER = /^(@index|this|[A-Za-z_][A-Za-z0-9_]*)$/
+
+/**
+ * Render a template against an object of variables
+ */
+export function renderTemplate(template: string, context: object): string {
+  return renderNodes(parseTemplate(template), [context as TemplateContext])
+}
+
+/**
+ * Parse a template into a node tree. Throws a TemplateError pointing at the
+ * offending tag when the syntax is invalid.
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>
+    target: TemplateNode[]
+    position: Position
+    hasElse: boolean
+  }> = []
+  let current = root
+  let offset = 0
+
+  while (offset < template.length) {
+    const start = template.indexOf('{{', offset)
+
+    if (start === -1) {
+      current.push({ type: 'text', value: template.slice(offset) })
+      break
+    }
+
+    if (start > offset) {
+      current.push({ type: 'text', value: template.slice(offset, start) })
+    }
+
+    const position = getPosition(template, start)
+    const end = template.indexOf('}}', start + 2)
+
+    if (end === -1) {
+      throw new TemplateError('Unclosed tag, expected "}}"', position.line, position.column)
+    }
+
+    const tag = template.slice(start + 2, end).trim()
+    offset = end + 2
+
+    if (tag.startsWith('#')) {
+      const [, keyword, rest] = tag.match(/^#(\S*)\s*([\s\S]*)$/) as RegExpMatchArray
+      if (keyword !== 'if' && keyword !== 'each') {
+        throw new TemplateError(`Unknown block "#${keyword}"`, position.line, position.column)
+      }
+
+      const expression = parseExpression(rest, position)
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> =
+        keyword === 'if'
+          ? { type: 'if', expression, then: [], else: [] }
+          : { type: 'each', expression, body: [] }
+
+      current.push(node)
+      stack.push({ node, target: current, position, hasElse: false })
+      current = node.type === 'if' ? node.then : node.body
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.node.type !== 'if' || open.hasElse) {
+        throw new TemplateError('Unexpected {{else}}', position.line, position.column)
+      }
+
+      open.hasElse = true
+      current = open.node.else
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim()
+      const open = stack.pop()
+
+      if (!open) {
+        throw new TemplateError(`Unexpected {{/${keyword}}}`, position.line, position.column)
+      }
+
+      if (open.node.type !== keyword) {
+        throw new TemplateError(
+          `Expected {{/${open.node.type}}} but found {{/${keyword}}}`,
+          position.line,
+          position.column
+        )
+      }
+
+      current = open.target
+    } else {
+      current.push({ type: 'output', expression: parseExpression(tag, position) })
+    }
+  }
+
+  const unclosed = stack.pop()
+  if (unclosed) {
+    throw new TemplateError(
+      `Unclosed {{#${unclosed.node.type}}}`,
+      unclosed.position.line,
+      unclosed.position.column
+    )
+  }
+
+  return root
+}
+
+function parseExpression(source: string, position: Position): Expression {
+  const [pathPart, ...filterParts] = splitOutsideQuotes(source, '|')
+  const path = (pathPart || '').trim()
+
+  if (!IDENTIFIER.test(path)) {
+    throw new TemplateError(
+      path ? `Invalid variable name "${path}"` : 'Empty tag',
+      position.line,
+      position.column
+    )
+  }
+
+  const filters = filterParts.map(part => {
+    const [name, ...args] = splitOutsideQuotes(part.trim(), ':')
+    const filterName = name.trim()
+
+    if (!Object.prototype.hasOwnProperty.call(FILTERS, filterName)) {
+      throw new TemplateError(`Unknown filter "${filterName}"`, position.line, position.column)
+    }
+
+    if (args.length !== FILTER_ARITY[filterName]) {
+      throw new TemplateError(
+        `Filter "${filterName}" expects ${FILTER_ARITY[filterName]} argument(s)`,
+        position.line,
+        position.column
+      )
+    }
+
+    return { name: filterName, args: args.map(arg => parseArgument(arg.trim(), position)) }
+  })
+
+  return { path, filters, position }
+}
+
+function parseArgument(source: string, position: Position): string | number {
+  const quoted = source.match(/^"((?:[^"\\]|\\.)*)"$/)
+  if (quoted) {
+    return quoted[1].replace(/\\(.)/g, '$1')
+  }
+
+  if (/^-?\d+$/.test(source)) {
+    return parseInt(source)
+  }
+
+  throw new TemplateError(
+    `Invalid filter argument ${source || '(empty)'}`,
+    position.line,
+    position.column
+  )
+}
+
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (char === '\\' && quoted) {
+      current += char + (source[i + 1] ?? '')
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      quoted = !quoted
+    }
+
+    if (char === separator && !quoted) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  parts.push(current)
+  return parts
+}
+
+export interface TemplateIssue {
+  message: string
+  line: number
+  column: number
+}
+
+/**
+ * Report syntax errors and references to variables that do not exist. A
+ * syntax error stops the check, so at most one is reported.
+ */
+export function validateTemplate(template: string, knownVariables: string[]): TemplateIssue[] {
+  let nodes: TemplateNode[]
+
+  try {
+    nodes = parseTemplate(template)
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return [
+        {
+          message: error.reason,
+          line: error.line,
+          column: error.column,
+        },
+      ]
+    }
+    throw error
+  }
+
+  const issues: TemplateIssue[] = []
+
+  const check = (expression: Expression, insideEach: boolean) => {
+    const { path, position } = expression
+    const loopVariable = path === 'this' || path === '@index'
+
+    if (loopVariable ? !insideEach : !knownVariables.includes(path)) {
+      issues.push({
+        message: loopVariable
+          ? `{{${path}}} can only be used inside {{#each}}`
+          : `Unknown variable "${path}"`,
+        line: position.line,
+        column: position.column,
+      })
+    }
+  }
+
+  const walk = (list: TemplateNode[], insideEach: boolean) => {
+    for (const node of list) {
+      if (node.type === 'text') continue
+
+      check(node.expression, insideEach)
+
+      if (node.type === 'if') {
+        walk(node.then, insideEach)
+        walk(node.else, insideEach)
+      } else if (node.type === 'each') {
+        walk(node.body, true)
+      }
+    }
+  }
+
+  walk(nodes, false)
+  return issues
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  let output = ''
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value
+        break
+      case 'output':
+        output += toText(evaluate(node.expression, scopes))
+        break
+      case 'if':
+        output += renderNodes(
+          isTruthy(evaluate(node.expression, scopes)) ? node.then : node.else,
+          scopes
+        )
+        break
+      case 'each':
+        toList(evaluate(node.expression, scopes)).forEach((item, index) => {
+          output += renderNodes(node.body, [...scopes, { this: item, '@index': index }])
+        })
+        break
+    }
+  }
+
+  return output
+}
+
+function evaluate(expression: Expression, scopes: TemplateContext[]): TemplateValue {
+  let value: TemplateValue = undefined
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    // Own keys only, so {{constructor}} does not reach the prototype
+    if (Object.prototype.hasOwnProperty.call(scopes[i], expression.path)) {
+      value = scopes[i][expression.path]
+      break
+    }
+  }
+
+  return expression.filters.reduce<TemplateValue>(
+    (current, filter) => FILTERS[filter.name](current, filter.args),
+    value
+  )
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  return value !== undefined && value !== null && value !== ''
+}
+
+function toText(value: TemplateValue): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+function toList(value: TemplateValue): string[] {
+  if (Array.isArray(value)) return value
+  return toText(value)
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+function formatDate(value: string, format: string): string {
+  const date = new Date(value)
+  if (!value || isNaN(date.getTime())) return value
+
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const parts: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  }
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token])
+}
+
+function getPosition(source: string, offset: number): Position {
+  const before = source.slice(0, offset)
+  const lines = before.split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
@@ -0,0 +1,76 @@
+import { findLanguage } from '../leetcode/languages'
+
+/**
+ * Metadata header written at the top of committed solution files, inside the
+ * comment syntax of the solution's language. The header is fenced by marker
+ * lines so a resubmitted file that still carries an old header gets it
+ * replaced instead of stacked.
+ */
+
+const START_MARKER = 'LeetShip:header'
+const END_MARKER = '/LeetShip:header'
+
+// Lines that have to stay first in the file
+const PRELUDE = /^(#!.*|<\?php.*)(\r?\n|$)/
+
+/**
+ * Put `header` at the top of `code` as a comment in the language's syntax,
+ * replacing a header added earlier. Code in a language missing from the
+ * registry is returned without a header.
+ */
+export function applySolutionHeader(code: string, header: string, language: string): string {
+  const body = stripSolutionHeader(code)
+  const comment = formatComment(header, language)
+  if (!comment) return body
+
+  const prelude = body.match(PRELUDE)
+  if (prelude) {
+    return `${prelude[1]}\n${comment}\n\n${body.slice(prelude[0].length)}`
+  }
+
+  return `${comment}\n\n${body}`
+}
+
+/**
+ * Remove a header written by `applySolutionHeader`, together with the blank
+ * line separating it from the code
+ */
+export function stripSolutionHeader(code: string): string {
+  const lines = code.split('\n')
+  const start = lines.findIndex(line => isMarker(line, START_MARKER))
+  if (start === -1) return code
+
+  const end = lines.findIndex((line, index) => index > start && isMarker(line, END_MARKER))
+  if (end === -1) return code
+
+  const removeBlank = lines[end + 1] !== undefined && lines[end + 1].trim() === '' ? 1 : 0
+  lines.splice(start, end - start + 1 + removeBlank)
+  return lines.join('\n')
+}
+
+function isMarker(line: string, marker: string): boolean {
+  return new RegExp(`(^|[^/\\w])${marker.replace(/[/]/g, '\\/')}\\b`).test(line)
+}
+
+function formatComment(header: string, language: string): string | null {
+  const syntax = findLanguage(language)?.comment
+  if (!syntax) return null
+
+  const { line, block } = syntax
+  const content = [START_MARKER, ...header.trimEnd().split(/\r?\n/), END_MARKER]
+
+  if (line) {
+    return content.map(text => (text ? `${line} ${text}` : line)).join('\n')
+  }
+
+  if (block) {
+    const [open, close] = block
+    // A closing delimiter inside the header would end the comment early
+    const safe = content.map(text => text.split(close).join(''))
+    return [`${open} ${safe[0]}`, ...safe.slice(1, -1), `${safe[safe.length - 1]} ${close}`].join(
+      '\n'
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { parseYaml, stringifyYaml, YamlError, YamlMap } from './yaml'
+
+describe('stringifyYaml', () => {
+  it('writes plain strings without quotes', () => {
+    expect(stringifyYaml({ slug: 'two-sum', lang: 'python3' })).toBe('slug: two-sum\nlang: python3')
+  })
+
+  it('quotes strings that would read back as something else', () => {
+    expect(
+      stringifyYaml({
+        id: '0001',
+        flag: 'true',
+        none: 'null',
+        empty: '',
+        colon: 'a: b',
+        comment: 'C# rocks',
+        quote: 'Say "Hi"',
+        newline: 'one\ntwo',
+      })
+    ).toBe(
+      [
+        'id: "0001"',
+        'flag: "true"',
+        'none: "null"',
+        'empty: ""',
+        'colon: "a: b"',
+        'comment: "C# rocks"',
+        'quote: "Say \\"Hi\\""',
+        'newline: "one\\ntwo"',
+      ].join('\n')
+    )
+  })
+
+  it('writes nested mappings and sequences', () => {
+    expect(
+      stringifyYaml({
+        tags: ['Array', 'Hash Table'],
+        variants: [{ file: 'solution.py', lang: 'python3' }],
+        stats: { runtime: '40 ms' },
+      })
+    ).toBe(
+      [
+        'tags: [Array, "Hash Table"]',
+        'variants:',
+        '  - file: solution.py',
+        '    lang: python3',
+        'stats:',
+        '  runtime: "40 ms"',
+      ].join('\n')
+    )
+  })
+})
+
+describe('parseYaml', () => {
+  it('reads scalars', () => {
+    expect(
+      parseYaml(
+        [
+          'number: 42',
+          'float: 1.5',
+          'yes: true',
+          'no: False',
+          'nothing: ~',
+          'plain: hello world',
+          "single: 'it''s'",
+          'double: "tab\\there"',
+        ].join('\n')
+      )
+    ).toEqual({
+      number: 42,
+      float: 1.5,
+      yes: true,
+      no: false,
+      nothing: null,
+      plain: 'hello world',
+      single: "it's",
+      double: 'tab\there',
+    })
+  })
+
+  it('reads block and flow sequences, including ones at the parent indentation', () => {
+    expect(parseYaml('a: [x, "y, z", 3]\nb:\n- one\n- two\nc:\n  - three')).toEqual({
+      a: ['x', 'y, z', 3],
+      b: ['one', 'two'],
+      c: ['three'],
+    })
+  })
+
+  it('strips comments outside strings', () => {
+    expect(parseYaml('title: "C# #1" # comment\nword: don\'t # note')).toEqual({
+      title: 'C# #1',
+      word: "don't",
+    })
+  })
+
+  it('keeps older unescaped quotes inside a quoted value', () => {
+    expect(parseYaml('title: "Say "Hi""')).toEqual({ title: 'Say "Hi"' })
+  })
+
+  it('reports errors with their line', () => {
+    const errorOf = (text: string) => {
+      try {
+        parseYaml(text)
+      } catch (error) {
+        if (error instanceof YamlError) return error.message
+        throw error
+      }
+      throw new Error('Expected a YamlError')
+    }
+
+    expect(errorOf('a: 1\n\tb: 2')).toBe('Tabs cannot be used for indentation (line 2)')
+    expect(errorOf('a: 1\njust text')).toBe('Expected "key: value" (line 2)')
+    expect(errorOf('a: [1, 2')).toBe('Unclosed "[" (line 1)')
+    expect(errorOf("a: 'open")).toBe('Unterminated string (line 1)')
+    expect(errorOf('a: 1\n    b: 2')).toBe('Unexpected indentation (line 2)')
+  })
+
+  it('round-trips what stringifyYaml writes', () => {
+    const data: YamlMap = {
+      id: '0042',
+      title: 'Trapping Rain Water: "hard" edition',
+      tags: ['Array', 'Two Pointers', 'Dynamic Programming'],
+      runtime: '4 ms',
+      percentile: '99%',
+      done: 'yes',
+      count: 3,
+      variants: [
+        { file: 'solution.cpp', lang: 'cpp' },
+        { file: 'solution-2.py', lang: 'python3' },
+      ],
+    }
+
+    expect(parseYaml(stringifyYaml(data))).toEqual(data)
+  })
+})
@@ -0,0 +1,360 @@
+/**
+ * The subset of YAML used in README front matter: block mappings, nested by
+ * indentation, block and flow sequences, and scalars (quoted or plain strings,
+ * numbers, booleans and null). Anchors, tags, multi-line and block scalars
+ * are not supported.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | YamlMap
+
+export interface YamlMap {
+  [key: string]: YamlValue
+}
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`${message} (line ${line})`)
+    this.name = 'YamlError'
+  }
+}
+
+const INDENT = '  '
+
+// Strings that can be written without quotes and still read back as strings
+const PLAIN_STRING = /^[A-Za-z_][A-Za-z0-9_./-]*$/
+
+const KEY = /^([A-Za-z_][A-Za-z0-9_-]*)\s*:(?:\s+(.*))?$/
+
+export function stringifyYaml(data: YamlMap): string {
+  return writeMap(data, 0).join('\n')
+}
+
+function writeMap(data: YamlMap, depth: number): string[] {
+  const indent = INDENT.repeat(depth)
+  const lines: string[] = []
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue
+
+    if (isMap(value)) {
+      lines.push(`${indent}${key}:`, ...writeMap(value, depth + 1))
+    } else if (Array.isArray(value) && value.some(item => isMap(item) || Array.isArray(item))) {
+      lines.push(`${indent}${key}:`, ...writeSequence(value, depth + 1))
+    } else {
+      lines.push(`${indent}${key}: ${writeInline(value)}`)
+    }
+  }
+
+  return lines
+}
+
+function writeSequence(items: YamlValue[], depth: number): string[] {
+  const indent = INDENT.repeat(depth)
+
+  return items.flatMap(item => {
+    if (isMap(item)) {
+      const [first, ...rest] = writeMap(item, depth + 1)
+      return first === undefined ? [`${indent}- {}`] : [`${indent}- ${first.trimStart()}`, ...rest]
+    }
+    return [`${indent}- ${writeInline(item)}`]
+  })
+}
+
+function writeInline(value: YamlValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(writeInline).join(', ')}]`
+  }
+  if (isMap(value)) {
+    return '{}'
+  }
+  if (value === null) {
+    return 'null'
+  }
+  if (typeof value !== 'string') {
+    return String(value)
+  }
+  return PLAIN_STRING.test(value) && typeof parseScalar(value, 0) === 'string'
+    ? value
+    : quote(value)
+}
+
+function quote(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, char => {
+    switch (char) {
+      case '\\':
+        return '\\\\'
+      case '"':
+        return '\\"'
+      case '\n':
+        return '\\n'
+      case '\t':
+        return '\\t'
+      case '\r':
+        return '\\r'
+      default:
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+    }
+  })
+  return `"${escaped}"`
+}
+
+function isMap(value: unknown): value is YamlMap {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+interface Line {
+  number: number
+  indent: number
+  text: string
+}
+
+export function parseYaml(text: string): YamlMap {
+  const lines: Line[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripComment(raw)
+    if (!content.trim()) return
+    if (/^\s*\t/.test(content)) {
+      throw new YamlError('Tabs cannot be used for indentation', index + 1)
+    }
+    lines.push({
+      number: index + 1,
+      indent: content.length - content.trimStart().length,
+      text: content.trim(),
+    })
+  })
+
+  if (lines.length === 0) return {}
+
+  const cursor = { index: 0 }
+  const result = readBlock(lines, cursor, lines[0].indent)
+
+  if (cursor.index < lines.length) {
+    throw new YamlError('Unexpected indentation', lines[cursor.index].number)
+  }
+  if (!isMap(result)) {
+    throw new YamlError('Expected a mapping', lines[0].number)
+  }
+
+  return result
+}
+
+function readBlock(lines: Line[], cursor: { index: number }, indent: number): YamlValue {
+  return lines[cursor.index].text.startsWith('- ') || lines[cursor.index].text === '-'
+    ? readSequence(lines, cursor, indent)
+    : readMap(lines, cursor, indent)
+}
+
+function readMap(lines: Line[], cursor: { index: number }, indent: number): YamlMap {
+  const map: YamlMap = {}
+
+  while (cursor.index < lines.length && lines[cursor.index].indent === indent) {
+    const line = lines[cursor.index]
+    const match = line.text.match(KEY)
+
+    if (!match) {
+      throw new YamlError(`Expected "key: value"`, line.number)
+    }
+
+    const [, key, value] = match
+    cursor.index++
+    map[key] =
+      value === undefined
+        ? readNested(lines, cursor, indent, line)
+        : parseInline(value, line.number)
+  }
+
+  return map
+}
+
+function readSequence(lines: Line[], cursor: { index: number }, indent: number): YamlValue[] {
+  const items: YamlValue[] = []
+
+  while (cursor.index < lines.length && lines[cursor.index].indent === indent) {
+    const line = lines[cursor.index]
+
+    if (!line.text.startsWith('- ') && line.text !== '-') break
+
+    const rest = line.text.slice(1).trim()
+    cursor.index++
+
+    if (!rest) {
+      items.push(readNested(lines, cursor, indent, line))
+    } else if (KEY.test(rest) && !/^["'[{]/.test(rest)) {
+      // "- key: value" starts a mapping whose other keys line up with "key"
+      const itemIndent = indent + line.text.indexOf(rest)
+      cursor.index--
+      lines[cursor.index] = { ...line, indent: itemIndent, text: rest }
+      items.push(readMap(lines, cursor, itemIndent))
+    } else {
+      items.push(parseInline(rest, line.number))
+    }
+  }
+
+  return items
+}
+
+function readNested(
+  lines: Line[],
+  cursor: { index: number },
+  indent: number,
+  parent: Line
+): YamlValue {
+  const next = lines[cursor.index]
+
+  // A sequence may sit at the same indentation as its parent key
+  if (next && next.indent === indent && next.text.startsWith('-') && KEY.test(parent.text)) {
+    return readSequence(lines, cursor, indent)
+  }
+
+  return next && next.indent > indent ? readBlock(lines, cursor, next.indent) : null
+}
+
+function parseInline(source: string, line: number): YamlValue {
+  const text = source.trim()
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new YamlError('Unclosed "["', line)
+    }
+    const inner = text.slice(1, -1).trim()
+    return inner ? splitFlow(inner, line).map(item => parseInline(item, line)) : []
+  }
+
+  if (text === '{}') {
+    return {}
+  }
+
+  return parseScalar(text, line)
+}
+
+function splitFlow(source: string, line: number): string[] {
+  const items: string[] = []
+  let current = ''
+  let quoteChar: string | null = null
+  let depth = 0
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoteChar) {
+      current += char
+      if (char === '\\' && quoteChar === '"') {
+        current += source[++i] ?? ''
+      } else if (char === quoteChar) {
+        quoteChar = null
+      }
+      continue
+    }
+
+    if ((char === '"' || char === "'") && !current.trim()) quoteChar = char
+    if (char === '[') depth++
+    if (char === ']') depth--
+
+    if (char === ',' && depth === 0) {
+      items.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  if (quoteChar || depth !== 0) {
+    throw new YamlError('Unterminated flow sequence', line)
+  }
+
+  items.push(current)
+  return items.map(item => item.trim()).filter(item => item !== '')
+}
+
+function parseScalar(text: string, line: number): YamlValue {
+  if (text.startsWith('"')) {
+    return parseDoubleQuoted(text, line)
+  }
+
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) {
+      throw new YamlError('Unterminated string', line)
+    }
+    return text.slice(1, -1).replace(/''/g, "'")
+  }
+
+  if (/^(null|Null|NULL|~)$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text)
+
+  return text
+}
+
+function parseDoubleQuoted(text: string, line: number): string {
+  let value = ''
+
+  for (let i = 1; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === '"') {
+      if (i === text.length - 1) return value
+      break
+    }
+
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+
+    const next = text[++i]
+    switch (next) {
+      case 'n':
+        value += '\n'
+        break
+      case 't':
+        value += '\t'
+        break
+      case 'r':
+        value += '\r'
+        break
+      case 'u':
+        value += String.fromCharCode(parseInt(text.slice(i + 1, i + 5), 16))
+        i += 4
+        break
+      default:
+        value += next ?? ''
+    }
+  }
+
+  // Older front matter wrote titles such as "Say "Hi"" without escaping the
+  // inner quotes. When the whole value is wrapped in quotes, keep what is inside.
+  if (text.length > 1 && text.endsWith('"')) {
+    return text.slice(1, -1)
+  }
+
+  throw new YamlError('Unterminated string', line)
+}
+
+function stripComment(line: string): string {
+  let quoteChar: string | null = null
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (quoteChar) {
+      if (char === '\\' && quoteChar === '"') i++
+      else if (char === quoteChar) quoteChar = null
+    } else if ((char === '"' || char === "'") && startsToken(line, i)) {
+      quoteChar = char
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i)
+    }
+  }
+
+  return line
+}
+
+/** Quotes only open a string at the start of a value, not inside a word like "don't" */
+function startsToken(line: string, index: number): boolean {
+  return index === 0 || /[\s[,:]/.test(line[index - 1])
+}
@@ -35,32 +35,162 @@ export interface GitHubConfig {
   accessToken: string
   refreshToken?: string
   tokenExpiry?: number
+  refreshTokenExpiry?: number
+  /** `oauth` tokens come from the device flow and can be refreshed; PATs are pasted by the user */
+  authMethod?: 'pat' | 'oauth'
 }
 
+export type DeviceFlowStatus = 'pending' | 'authorized' | 'failed' | 'cancelled'
+
+/** Progress of a GitHub device-flow sign-in, kept by the background worker */
+export interface DeviceFlowState {
+  status: DeviceFlowStatus
+  /** Code the user enters on `verificationUri` */
+  userCode: string
+  verificationUri: string
+  expiresAt: number
+  username?: string
+  error?: string
+}
+
+export type SolutionStrategy = 'overwrite' | 'per-language' | 'attempts'
+
+export type ProblemStatementFormat = 'markdown' | 'html' | 'text'
+
+/** `direct` commits onto the configured branch, `pull-request` opens a pull request into it */
+export type DeliveryMode = 'direct' | 'pull-request'
+
+/** Pull request branches hold one day of submissions or all submissions of one problem */
+export type PullRequestGrouping = 'daily' | 'problem'
+
 export interface ExtensionConfig {
   github: GitHubConfig | null
   templates: {
     commitMessage: string
     readme: string
     folderLayout: string
+    solutionHeader: string
+    filename: string
+    /** Filename templates keyed by language slug, used instead of `filename` */
+    filenameOverrides: Record<string, string>
+    /** Layout of the repository README, created on the first commit */
+    rootReadme: string
+    /** Id of the preset the templates were last loaded from */
+    preset: string
+    customPresets: TemplatePreset[]
   }
   settings: {
     includeProblemStatement: boolean
+    problemStatementFormat: ProblemStatementFormat
+    /** Largest statement image archived into the repository, in KB. 0 keeps the remote links */
+    statementImageLimit: number
+    includeSolutionHeader: boolean
     sanitizeFilenames: boolean
     skipDuplicates: boolean
     autoRetry: boolean
     privateRepoWarning: boolean
     telemetry: boolean
+    solutionStrategy: SolutionStrategy
+    judgeTimeout: number
+    deliveryMode: DeliveryMode
+    pullRequestGrouping: PullRequestGrouping
+    /** Enable auto-merge on opened pull requests when the repository allows it */
+    autoMerge: boolean
   }
   version: number
 }
 
+/** The templates a preset sets together */
+export type PresetTemplates = Omit<ExtensionConfig['templates'], 'preset' | 'customPresets'>
+
+export interface TemplatePreset {
+  id: string
+  name: string
+  description: string
+  templates: PresetTemplates
+}
+
 export interface QueuedCommit {
   id: string
   submission: LeetCodeSubmission
   timestamp: number
   retryCount: number
   lastError?: string
+  nextAttemptAt?: number
+}
+
+export interface DeadLetterCommit extends QueuedCommit {
+  failedAt: number
+  reason: 'permanent' | 'exhausted'
+}
+
+/** The most recent committed submission, kept so the options page can preview templates with it */
+export interface LastSubmission {
+  submission: LeetCodeSubmission
+  problem?: ProblemDetails
+  savedAt: number
+}
+
+export interface SolutionVariant {
+  file: string
+  lang: string
+  runtime: string
+  memory: string
+  submittedAt: string
+}
+
+export interface SolutionIndexEntry {
+  id: string
+  title: string
+  slug: string
+  difficulty: 'Easy' | 'Medium' | 'Hard'
+  lang: string
+  runtime: string
+  memory: string
+  submittedAt: string
+  path: string
+  variants?: SolutionVariant[]
+}
+
+export interface SolutionsIndex {
+  repository: string
+  updatedAt: number
+  entries: SolutionIndexEntry[]
+  /**
+   * Entries delivered to pull request branches that are not merged yet, by
+   * branch. They move to `entries` once their pull request is merged.
+   */
+  pending?: Record<string, SolutionIndexEntry[]>
+}
+
+export type ImportStatus =
+  | 'idle'
+  | 'collecting'
+  | 'importing'
+  | 'completed'
+  | 'cancelled'
+  | 'failed'
+
+export interface ImportCandidate {
+  id: string
+  titleSlug: string
+  lang: string
+  timestamp: number
+}
+
+export interface ImportState {
+  status: ImportStatus
+  offset: number
+  lastKey: string | null
+  pending: ImportCandidate[]
+  total: number
+  queued: number
+  skipped: number
+  startedAt: number
+  updatedAt: number
+  error?: string
+  /** Phase a failed import resumes in */
+  failedPhase?: 'collecting' | 'importing'
 }
 
 export interface CommitPayload {
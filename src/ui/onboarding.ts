@@ -1,14 +1,18 @@
 import { getBrowser } from '../lib/browser'
 import { storage } from '../lib/storage'
 import { GitHubAuth } from '../lib/auth/github'
-import { githubAPI } from '../lib/github/api'
-import { ExtensionConfig } from '../lib/types'
+import { githubAPI, GitHubAPIError } from '../lib/github/api'
+import { buildRepositoryScaffold, LICENSE_OPTIONS } from '../lib/github/scaffold'
+import { sendMessage } from '../lib/messages'
+import { DeviceFlowState, ExtensionConfig } from '../lib/types'
+import { renderTokenReport } from './token-report'
 
 class OnboardingPage {
   private browser = getBrowser()
   private githubAuth = new GitHubAuth()
   private currentStep = 1
   private config: ExtensionConfig | null = null
+  private deviceFlowPollTimer: number | null = null
 
   constructor() {
     this.initialize()
@@ -16,8 +20,10 @@ class OnboardingPage {
 
   private async initialize(): Promise<void> {
     await this.loadConfig()
+    this.setupLicenseOptions()
     this.setupEventListeners()
     this.showStep(1)
+    await this.updateDeviceFlow()
   }
 
   private async loadConfig(): Promise<void> {
@@ -28,6 +34,11 @@ class OnboardingPage {
     }
   }
 
+  private setupLicenseOptions(): void {
+    const select = document.getElementById('new-repo-license') as HTMLSelectElement | null
+    LICENSE_OPTIONS.forEach(license => select?.add(new Option(license.label, license.key)))
+  }
+
   private setupEventListeners(): void {
     // Step navigation
     document.getElementById('next-step')?.addEventListener('click', () => this.nextStep())
@@ -50,6 +61,15 @@ class OnboardingPage {
       this.handleCreateToken()
     })
 
+    // Device flow sign-in
+    document.getElementById('start-device-flow')?.addEventListener('click', () => {
+      this.handleStartDeviceFlow()
+    })
+
+    document.getElementById('cancel-device-flow')?.addEventListener('click', () => {
+      sendMessage({ type: 'CANCEL_DEVICE_FLOW' }).then(() => this.updateDeviceFlow())
+    })
+
     // Repository options
     const repoOptions = document.querySelectorAll('input[name="repo-option"]')
     repoOptions.forEach(option => {
@@ -214,23 +234,21 @@ class OnboardingPage {
       testButton.setAttribute('disabled', 'true')
       if (statusText) statusText.textContent = 'Testing token...'
 
-      const validationResult = await this.githubAuth.validateToken(token)
+      // Repository permissions are checked once a repository is chosen
+      const report = await this.githubAuth.inspectToken(token)
 
-      if (validationResult.valid) {
+      if (report.valid) {
         if (statusText) {
-          statusText.textContent = '✅ Token is valid!'
-          statusText.className = 'text-green-600 font-medium'
+          statusText.innerHTML = renderTokenReport(report)
+          statusText.className = 'token-status'
         }
         this.showToast('Token validation successful!', 'success')
       } else {
         if (statusText) {
-          statusText.textContent = `❌ ${validationResult.error || 'Token is invalid'}`
+          statusText.textContent = `❌ ${report.error || 'Token is invalid'}`
           statusText.className = 'text-red-600 font-medium'
         }
-        this.showToast(
-          validationResult.error || 'Token validation failed. Please check your token.',
-          'error'
-        )
+        this.showToast(report.error || 'Token validation failed. Please check your token.', 'error')
       }
     } catch (error) {
       console.error('Token test failed:', error)
@@ -318,6 +336,61 @@ class OnboardingPage {
     }
   }
 
+  private async handleStartDeviceFlow(): Promise<void> {
+    const response = await sendMessage({ type: 'START_DEVICE_FLOW' })
+    if (!response?.success) {
+      this.showToast(`Sign-in failed: ${response?.error || 'Unknown error'}`, 'error')
+      return
+    }
+    await this.updateDeviceFlow()
+  }
+
+  /**
+   * Show the sign-in code while the background worker polls GitHub, and move
+   * on to the repository step once the user has authorized LeetShip
+   */
+  private async updateDeviceFlow(): Promise<void> {
+    const response = await sendMessage({ type: 'GET_DEVICE_FLOW_STATUS' })
+    const state: DeviceFlowState | null = response?.state || null
+    const pending = state?.status === 'pending'
+
+    document.getElementById('device-flow')?.classList.toggle('hidden', !response?.available)
+    document.getElementById('device-code')?.classList.toggle('hidden', !pending)
+    document.getElementById('start-device-flow')?.classList.toggle('hidden', pending)
+    document.getElementById('cancel-device-flow')?.classList.toggle('hidden', !pending)
+
+    const statusText = document.getElementById('device-flow-status')
+    if (statusText) {
+      statusText.textContent =
+        state?.status === 'failed' ? `❌ ${state.error || 'Sign-in failed'}` : ''
+    }
+
+    if (state && pending) {
+      const userCode = document.getElementById('device-user-code')
+      const link = document.getElementById('device-verification-link') as HTMLAnchorElement | null
+      if (userCode) userCode.textContent = state.userCode
+      if (link) {
+        link.href = state.verificationUri
+        link.textContent = state.verificationUri
+      }
+    }
+
+    if (pending && this.deviceFlowPollTimer === null) {
+      this.deviceFlowPollTimer = window.setInterval(() => this.updateDeviceFlow(), 2000)
+    } else if (!pending && this.deviceFlowPollTimer !== null) {
+      window.clearInterval(this.deviceFlowPollTimer)
+      this.deviceFlowPollTimer = null
+
+      if (state?.status === 'authorized') {
+        // The background worker saved the new GitHub config
+        await this.loadConfig()
+        if (statusText) statusText.textContent = `✅ Connected as ${state.username}`
+        this.showToast(`Successfully connected as ${state.username}!`, 'success')
+        setTimeout(() => this.nextStep(), 1500)
+      }
+    }
+  }
+
   private handleRepositoryOptionChange(option: string): void {
     const existingSection = document.getElementById('existing-repo-section')
     const newSection = document.getElementById('new-repo-section')
@@ -376,6 +449,20 @@ class OnboardingPage {
 
     try {
       const [owner, repo] = select.value.split('/')
+
+      // Stop here rather than on the first commit when the token cannot push
+      const reportElement = document.getElementById('repository-report')
+      const report = await this.githubAuth.inspectToken(this.config?.github?.accessToken || '', {
+        owner,
+        repo,
+        requirePullRequests: this.config?.settings.deliveryMode === 'pull-request',
+      })
+      if (reportElement) reportElement.innerHTML = renderTokenReport(report)
+      if (!report.ready) {
+        this.showToast(`The token cannot commit to ${owner}/${repo} yet, see below`, 'warning')
+        return
+      }
+
       const branches = await githubAPI.getBranches(owner, repo)
       branchSelect.innerHTML = '<option value="">Select a branch</option>'
 
@@ -406,6 +493,10 @@ class OnboardingPage {
 
   private async handleNewRepository(): Promise<void> {
     const repoNameInput = document.getElementById('new-repo-name') as HTMLInputElement
+    const privateInput = document.getElementById('new-repo-private') as HTMLInputElement
+    const licenseSelect = document.getElementById('new-repo-license') as HTMLSelectElement
+    const branchSelect = document.getElementById('branch-select-onboarding') as HTMLSelectElement
+    const setupButton = document.getElementById('setup-repository') as HTMLButtonElement
     const repoName = repoNameInput.value.trim()
 
     if (!repoName) {
@@ -413,19 +504,45 @@ class OnboardingPage {
       return
     }
 
-    // For now, we'll just save the repository name and let the user create it manually
-    // TODO: Implement repository creation via GitHub API
-    if (this.config) {
-      this.config.github!.repository = repoName
-      this.config.github!.branch = 'main'
-      await storage.setConfig(this.config)
+    if (!this.config?.github) {
+      this.showToast('Please connect GitHub first', 'warning')
+      return
     }
 
-    this.showToast(
-      'Repository name saved. Please create the repository on GitHub and select it from existing repositories.',
-      'info'
-    )
-    setTimeout(() => this.nextStep(), 2000)
+    setupButton.disabled = true
+    this.showToast('Creating repository...', 'info')
+
+    try {
+      const repository = await githubAPI.createRepository(
+        {
+          name: repoName,
+          description: 'My LeetCode solutions, synced by LeetShip',
+          private: privateInput.checked,
+          license: licenseSelect.value,
+        },
+        buildRepositoryScaffold(this.config)
+      )
+
+      branchSelect.innerHTML = ''
+      branchSelect.add(new Option(repository.default_branch, repository.default_branch, true, true))
+
+      this.config.github.repository = repository.name
+      this.config.github.branch = repository.default_branch
+      await storage.setConfig(this.config)
+
+      this.showToast(`Repository ${repository.full_name} created`, 'success')
+      setTimeout(() => this.nextStep(), 1000)
+    } catch (error) {
+      console.error('Failed to create repository:', error)
+      this.showToast(
+        error instanceof GitHubAPIError && error.status === 422
+          ? `Could not create "${repoName}": a repository with that name may already exist`
+          : 'Failed to create repository',
+        'error'
+      )
+    } finally {
+      setupButton.disabled = false
+    }
   }
 
   private async handleSaveConfiguration(): Promise<void> {
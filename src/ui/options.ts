@@ -1,14 +1,55 @@
 import { getBrowser } from '../lib/browser'
 import { storage } from '../lib/storage'
 import { GitHubAuth } from '../lib/auth/github'
-import { githubAPI } from '../lib/github/api'
-import { TemplateEngine } from '../lib/templates'
-import { ExtensionConfig, QueuedCommit } from '../lib/types'
+import { TokenCapabilityReport } from '../lib/auth/token-capabilities'
+import { githubAPI, GitHubAPIError } from '../lib/github/api'
+import { buildRepositoryScaffold, LICENSE_OPTIONS } from '../lib/github/scaffold'
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_ID,
+  exportPresets,
+  findPreset,
+  forkPreset,
+  getDefaultPreset,
+  importPresets,
+  isBuiltInPreset,
+  PresetError,
+  TemplateEngine,
+  TemplateIssue,
+} from '../lib/templates'
+import { sendMessage } from '../lib/messages'
+import {
+  DeadLetterCommit,
+  DeviceFlowState,
+  ExtensionConfig,
+  ImportState,
+  LastSubmission,
+  PresetTemplates,
+  QueuedCommit,
+  SolutionVariant,
+  TemplatePreset,
+} from '../lib/types'
+import { findLanguage } from '../lib/leetcode/languages'
+import { PREVIEW_SAMPLES } from './preview-samples'
+import { renderTokenReport } from './token-report'
+
+const TEMPLATE_FIELDS = [
+  'commit-template',
+  'readme-template',
+  'folder-template',
+  'filename-template',
+  'header-template',
+] as const
+
+const LAST_SUBMISSION_SOURCE = 'last-submission'
 
 class OptionsPage {
   private browser = getBrowser()
   private githubAuth = new GitHubAuth()
   private config: ExtensionConfig | null = null
+  private importPollTimer: number | null = null
+  private deviceFlowPollTimer: number | null = null
+  private lastSubmission: LastSubmission | null = null
 
   constructor() {
     this.initialize()
@@ -19,6 +60,7 @@ class OptionsPage {
   private async initialize(): Promise<void> {
     try {
       await this.loadConfig()
+      this.setupLicenseOptions()
       this.setupEventListeners()
       this.setupTabNavigation()
       await this.updateUI()
@@ -120,10 +162,12 @@ class OptionsPage {
   private async updateUI(): Promise<void> {
     await this.updateAuthStatus()
     await this.updateRepositoryUI()
+    await this.updatePreviewSources()
     this.updateTemplateUI()
     this.updateSettingsUI()
     await this.updateQueueUI()
     this.updatePATForm()
+    await this.updateDeviceFlowUI()
   }
 
   private async updateAuthStatus(): Promise<void> {
@@ -139,6 +183,7 @@ class OptionsPage {
       connectBtn?.classList.remove('hidden')
       disconnectBtn?.classList.add('hidden')
       userInfo?.classList.add('hidden')
+      document.getElementById('token-report')?.classList.add('hidden')
       return
     }
 
@@ -167,6 +212,8 @@ class OptionsPage {
         if (userName) userName.textContent = this.getGitHubOwner()
         if (userUsername) userUsername.textContent = ''
       }
+
+      await this.updateTokenReport()
     } else {
       statusIndicator?.classList.add('error')
       statusIndicator?.classList.remove('connected')
@@ -184,6 +231,40 @@ class OptionsPage {
     }
   }
 
+  /**
+   * Check what the stored token can do in the configured repository and show
+   * the report, with what to change on GitHub and a warning before expiry
+   */
+  private async updateTokenReport(): Promise<TokenCapabilityReport | null> {
+    const container = this.ensureEl('token-report')
+    const github = this.config?.github
+    if (!github?.accessToken) {
+      container.classList.add('hidden')
+      return null
+    }
+
+    const owner = this.getGitHubOwner()
+    const report = await this.githubAuth.inspectToken(
+      github.accessToken,
+      owner && github.repository
+        ? {
+            owner,
+            repo: github.repository,
+            requirePullRequests: this.config?.settings.deliveryMode === 'pull-request',
+          }
+        : null
+    )
+
+    container.innerHTML = renderTokenReport(report)
+    container.classList.remove('hidden')
+    return report
+  }
+
+  private setupLicenseOptions(): void {
+    const select = this.ensureEl<HTMLSelectElement>('new-repository-license')
+    LICENSE_OPTIONS.forEach(license => select.add(new Option(license.label, license.key)))
+  }
+
   private async updateRepositoryUI(): Promise<void> {
     if (!this.config?.github?.accessToken) return
     try {
@@ -238,50 +319,233 @@ class OptionsPage {
 
   private updateTemplateUI(): void {
     if (!this.config) return
-    const commitTemplate = this.ensureEl<HTMLTextAreaElement>('commit-template')
-    const readmeTemplate = this.ensureEl<HTMLTextAreaElement>('readme-template')
-    const folderTemplate = this.ensureEl<HTMLInputElement>('folder-template')
-
-    commitTemplate.value = this.config.templates.commitMessage
-    readmeTemplate.value = this.config.templates.readme
-    folderTemplate.value = this.config.templates.folderLayout
+    this.fillTemplateFields(this.config.templates)
+    this.updatePresetUI(this.config.templates.preset)
     this.updateTemplatePreview()
   }
 
+  private fillTemplateFields(templates: PresetTemplates): void {
+    this.ensureEl<HTMLTextAreaElement>('commit-template').value = templates.commitMessage
+    this.ensureEl<HTMLTextAreaElement>('readme-template').value = templates.readme
+    this.ensureEl<HTMLInputElement>('folder-template').value = templates.folderLayout
+    this.ensureEl<HTMLTextAreaElement>('header-template').value = templates.solutionHeader
+    this.ensureEl<HTMLInputElement>('filename-template').value = templates.filename
+    this.ensureEl<HTMLTextAreaElement>('filename-overrides').value = Object.entries(
+      templates.filenameOverrides
+    )
+      .map(([language, template]) => `${language}: ${template}`)
+      .join('\n')
+    this.ensureEl<HTMLTextAreaElement>('root-readme-template').value = templates.rootReadme
+  }
+
+  private updatePresetUI(selectedId: string): void {
+    if (!this.config) return
+    const select = this.ensureEl<HTMLSelectElement>('template-preset')
+    const { customPresets } = this.config.templates
+
+    const addGroup = (label: string, presets: TemplatePreset[]) => {
+      if (presets.length === 0) return
+      const group = document.createElement('optgroup')
+      group.label = label
+      presets.forEach(preset => group.appendChild(new Option(preset.name, preset.id)))
+      select.appendChild(group)
+    }
+
+    select.innerHTML = ''
+    addGroup('Built-in', BUILT_IN_PRESETS)
+    addGroup('Custom', customPresets)
+
+    const preset = findPreset(selectedId, customPresets) || getDefaultPreset()
+    select.value = preset.id
+    this.ensureEl('template-preset-description').textContent = preset.description
+    this.ensureEl<HTMLButtonElement>('delete-preset').disabled = isBuiltInPreset(preset.id)
+  }
+
+  private async updatePreviewSources(): Promise<void> {
+    const select = document.getElementById('preview-source') as HTMLSelectElement | null
+    if (!select) return
+
+    this.lastSubmission = await storage.getLastSubmission()
+    const selected = select.value
+
+    select.innerHTML = ''
+    PREVIEW_SAMPLES.forEach(sample => select.add(new Option(sample.label, sample.key)))
+    if (this.lastSubmission) {
+      const { title, language } = this.lastSubmission.submission
+      select.add(new Option(`Last submission: ${title} (${language})`, LAST_SUBMISSION_SOURCE))
+    }
+
+    if (Array.from(select.options).some(option => option.value === selected)) {
+      select.value = selected
+    }
+  }
+
+  /** Submission and problem the preview renders, from a sample or the last real commit */
+  private getPreviewData(): Omit<LastSubmission, 'savedAt'> {
+    const source = (document.getElementById('preview-source') as HTMLSelectElement | null)?.value
+
+    if (source === LAST_SUBMISSION_SOURCE && this.lastSubmission) {
+      return this.lastSubmission
+    }
+
+    return (PREVIEW_SAMPLES.find(sample => sample.key === source) || PREVIEW_SAMPLES[0]).data
+  }
+
+  private readTemplates(): ExtensionConfig['templates'] {
+    const templates = this.readPresetTemplates()
+    const preset = this.ensureEl<HTMLSelectElement>('template-preset').value || DEFAULT_PRESET_ID
+
+    return {
+      ...templates,
+      preset,
+      // The selected custom preset follows the saved templates
+      customPresets: (this.config?.templates.customPresets || []).map(custom =>
+        custom.id === preset ? { ...custom, templates } : custom
+      ),
+    }
+  }
+
+  private readPresetTemplates(): PresetTemplates {
+    return {
+      commitMessage: this.ensureEl<HTMLTextAreaElement>('commit-template').value,
+      readme: this.ensureEl<HTMLTextAreaElement>('readme-template').value,
+      folderLayout: this.ensureEl<HTMLInputElement>('folder-template').value,
+      solutionHeader: this.ensureEl<HTMLTextAreaElement>('header-template').value,
+      filename: this.ensureEl<HTMLInputElement>('filename-template').value,
+      filenameOverrides: this.parseFilenameOverrides(
+        this.ensureEl<HTMLTextAreaElement>('filename-overrides').value
+      ).overrides,
+      rootReadme: this.ensureEl<HTMLTextAreaElement>('root-readme-template').value,
+    }
+  }
+
+  /**
+   * Read the "language: template" lines of the per-language filename field,
+   * keyed by language slug. Lines that cannot be used are reported as issues.
+   */
+  private parseFilenameOverrides(text: string): {
+    overrides: Record<string, string>
+    issues: string[]
+  } {
+    const overrides: Record<string, string> = {}
+    const issues: string[] = []
+
+    text.split('\n').forEach((line, index) => {
+      if (!line.trim()) return
+
+      const match = line.match(/^\s*([^:]+?)\s*:\s*(.*?)\s*$/)
+      const language = match && findLanguage(match[1])
+
+      if (!match || !match[2]) {
+        issues.push(`Line ${index + 1}: expected "language: template"`)
+      } else if (!language) {
+        issues.push(`Line ${index + 1}: unknown language "${match[1]}"`)
+      } else {
+        TemplateEngine.validate(match[2]).forEach(issue =>
+          issues.push(`Line ${index + 1}: ${issue.message}`)
+        )
+        overrides[language.slug] = match[2]
+      }
+    })
+
+    return { overrides, issues }
+  }
+
+  /** Flag syntax errors and unknown variables below each template field */
+  private validateTemplates(): boolean {
+    const fields: Array<[string, string[]]> = TEMPLATE_FIELDS.map(id => [
+      id,
+      TemplateEngine.validate(this.ensureEl<HTMLTextAreaElement | HTMLInputElement>(id).value).map(
+        issue => this.formatTemplateIssue(issue)
+      ),
+    ])
+    fields.push([
+      'filename-overrides',
+      this.parseFilenameOverrides(this.ensureEl<HTMLTextAreaElement>('filename-overrides').value)
+        .issues,
+    ])
+
+    fields.forEach(([id, issues]) => {
+      const list = this.ensureEl(`${id}-issues`)
+
+      this.ensureEl(id).classList.toggle('invalid', issues.length > 0)
+      list.innerHTML = ''
+      issues.forEach(issue => {
+        const item = document.createElement('li')
+        item.textContent = issue
+        list.appendChild(item)
+      })
+    })
+
+    return fields.every(([, issues]) => issues.length === 0)
+  }
+
+  private formatTemplateIssue(issue: TemplateIssue): string {
+    return `Line ${issue.line}, column ${issue.column}: ${issue.message}`
+  }
+
+  /**
+   * Render exactly what a commit would contain for the selected preview
+   * source: folder, file names, commit message and the full files.
+   */
   private updateTemplatePreview(): void {
     const previewContent = document.getElementById('template-preview')
-    if (!previewContent) return
+    if (!previewContent || !this.config) return
 
-    const variables = {
-      id: '0001',
-      title: 'Two Sum',
-      slug: 'two-sum',
-      difficulty: 'easy',
-      tags: 'array, hash-table',
-      lang: 'python',
-      runtime: '52 ms',
-      memory: '15.3 MB',
-      timestamp: new Date().toISOString(),
-      link: 'https://leetcode.com/problems/two-sum/',
-      runtimePercentile: '85.4%',
-      memoryPercentile: '92.1%',
-    }
+    this.validateTemplates()
 
-    const commitTemplate =
-      (document.getElementById('commit-template') as HTMLTextAreaElement)?.value || ''
-    const readmeTemplate =
-      (document.getElementById('readme-template') as HTMLTextAreaElement)?.value || ''
-    const folderTemplate =
-      (document.getElementById('folder-template') as HTMLInputElement)?.value || ''
+    const templates = this.readTemplates()
+    const { submission, problem } = this.getPreviewData()
 
-    const commitMessage = TemplateEngine.render(commitTemplate, variables)
-    const folderPath = TemplateEngine.render(folderTemplate, variables)
+    try {
+      const variables = TemplateEngine.getVariables(submission, problem)
+      const folderPath = TemplateEngine.generateFolderPath(templates.folderLayout, variables)
+      const commitMessage = TemplateEngine.generateCommitMessage(templates.commitMessage, variables)
+      const filename = TemplateEngine.generateFilename(templates, variables)
+      const variant: SolutionVariant = {
+        file: filename,
+        lang: variables.lang,
+        runtime: submission.runtime,
+        memory: submission.memory,
+        submittedAt: variables.timestamp,
+      }
+      const files = TemplateEngine.generateFiles(
+        { templates, settings: this.config.settings },
+        submission,
+        filename,
+        [variant],
+        problem
+      )
 
-    previewContent.textContent = `Folder: ${folderPath}/
-Commit: ${commitMessage}
+      previewContent.innerHTML = ''
+      previewContent.appendChild(this.createPreviewSection('Commit message', commitMessage))
+      previewContent.appendChild(
+        this.createPreviewSection(
+          'Files',
+          [`${folderPath}/`, ...files.map(file => `  ${file.name}`)].join('\n')
+        )
+      )
+      files.forEach(file => {
+        previewContent.appendChild(
+          this.createPreviewSection(`${folderPath}/${file.name}`, file.content)
+        )
+      })
+    } catch (error) {
+      previewContent.textContent = `Template error: ${error instanceof Error ? error.message : error}`
+    }
+  }
+
+  private createPreviewSection(title: string, content: string): HTMLElement {
+    const section = document.createElement('div')
+    section.className = 'preview-section'
 
-README Preview:
-${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
+    const heading = document.createElement('h4')
+    heading.textContent = title
+    const body = document.createElement('pre')
+    body.textContent = content
+
+    section.append(heading, body)
+    return section
   }
 
   private updateSettingsUI(): void {
@@ -290,6 +554,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     Object.entries(settings).forEach(([key, value]) => {
       const el = document.getElementById(this.kebabCase(key)) as HTMLInputElement | null
       if (el && el.type === 'checkbox') el.checked = Boolean(value)
+      else if (el && (el.tagName === 'SELECT' || el.type === 'number')) el.value = String(value)
     })
   }
 
@@ -306,6 +571,126 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
       console.error('Failed to load queue:', error)
       queueList.innerHTML = '<div class="empty-state">Failed to load queue</div>'
     }
+
+    await this.updateDeadLetterUI()
+  }
+
+  private async updateDeadLetterUI(): Promise<void> {
+    const deadLetterList = document.getElementById('dead-letter-list')
+    if (!deadLetterList) return
+    try {
+      const deadLetters = await storage.getDeadLetters()
+      deadLetterList.innerHTML =
+        deadLetters.length === 0
+          ? '<div class="empty-state">No failed commits</div>'
+          : deadLetters.map(item => this.renderDeadLetterItem(item)).join('')
+    } catch (error) {
+      console.error('Failed to load failed commits:', error)
+      deadLetterList.innerHTML = '<div class="empty-state">Failed to load failed commits</div>'
+    }
+  }
+
+  private async updateImportUI(): Promise<void> {
+    try {
+      const response = await sendMessage({ type: 'GET_IMPORT_STATUS' })
+      const state: ImportState | null = response?.state || null
+      const active = state?.status === 'collecting' || state?.status === 'importing'
+
+      this.ensureEl('start-import').classList.toggle('hidden', active)
+      this.ensureEl('cancel-import').classList.toggle('hidden', !active)
+      this.ensureEl('start-import').textContent =
+        state?.status === 'failed' ? 'Resume Import' : 'Import History'
+
+      const progress = this.ensureEl('import-progress')
+      progress.classList.toggle('hidden', !state || state.status === 'idle')
+
+      if (state) {
+        const done = state.queued + state.skipped
+        const percent =
+          state.status === 'collecting' || state.total === 0
+            ? 0
+            : Math.round((done / state.total) * 100)
+        this.ensureEl('import-progress-bar').style.width =
+          `${state.status === 'completed' ? 100 : percent}%`
+        this.ensureEl('import-progress-text').textContent = this.describeImport(state)
+      }
+
+      if (active && this.importPollTimer === null) {
+        this.importPollTimer = window.setInterval(() => this.updateImportUI(), 2000)
+      } else if (!active && this.importPollTimer !== null) {
+        window.clearInterval(this.importPollTimer)
+        this.importPollTimer = null
+        await this.updateQueueUI()
+      }
+    } catch (error) {
+      console.error('Failed to load import status:', error)
+    }
+  }
+
+  private describeImport(state: ImportState): string {
+    switch (state.status) {
+      case 'collecting':
+        return `Scanning submissions... ${state.offset} checked, ${state.total} accepted`
+      case 'importing':
+        return `Importing ${state.queued + state.skipped} of ${state.total} (${state.queued} queued, ${state.skipped} skipped)`
+      case 'completed':
+        return `Import finished: ${state.queued} queued, ${state.skipped} skipped`
+      case 'cancelled':
+        return 'Import cancelled'
+      case 'failed':
+        return `Import stopped: ${state.error || 'Unknown error'}`
+      default:
+        return ''
+    }
+  }
+
+  private async updateDeviceFlowUI(): Promise<void> {
+    try {
+      const response = await sendMessage({ type: 'GET_DEVICE_FLOW_STATUS' })
+      const state: DeviceFlowState | null = response?.state || null
+      const pending = state?.status === 'pending'
+
+      this.ensureEl('device-flow-form').classList.toggle('hidden', !response?.available)
+      this.ensureEl('start-device-flow').classList.toggle('hidden', pending)
+      this.ensureEl('cancel-device-flow').classList.toggle('hidden', !pending)
+      this.ensureEl('device-code').classList.toggle('hidden', !pending)
+      this.ensureEl('device-flow-status').textContent = state ? this.describeDeviceFlow(state) : ''
+
+      if (state && pending) {
+        this.ensureEl('device-user-code').textContent = state.userCode
+        const link = this.ensureEl<HTMLAnchorElement>('device-verification-link')
+        link.href = state.verificationUri
+        link.textContent = state.verificationUri
+      }
+
+      if (pending && this.deviceFlowPollTimer === null) {
+        this.deviceFlowPollTimer = window.setInterval(() => this.updateDeviceFlowUI(), 2000)
+      } else if (!pending && this.deviceFlowPollTimer !== null) {
+        window.clearInterval(this.deviceFlowPollTimer)
+        this.deviceFlowPollTimer = null
+
+        if (state?.status === 'authorized') {
+          this.showToast(`Signed in to GitHub as ${state.username || 'your account'}`, 'success')
+          await this.loadConfig()
+          await this.updateUI()
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load sign-in status:', error)
+    }
+  }
+
+  private describeDeviceFlow(state: DeviceFlowState): string {
+    switch (state.status) {
+      case 'pending':
+        return `Waiting for authorization, the code expires at ${new Date(state.expiresAt).toLocaleTimeString()}`
+      case 'authorized':
+        return `Signed in as ${state.username || 'your GitHub account'}`
+      case 'cancelled':
+        return 'Sign-in cancelled'
+      case 'failed':
+        return `Sign-in failed: ${state.error || 'Unknown error'}`
+    }
   }
 
   private updatePATForm(): void {
@@ -322,6 +707,10 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
   private renderQueueItem(item: QueuedCommit): string {
     const date = new Date(item.timestamp).toLocaleString()
     const hasError = item.lastError && item.retryCount > 0
+    const nextAttempt =
+      item.nextAttemptAt && item.nextAttemptAt > Date.now()
+        ? new Date(item.nextAttemptAt).toLocaleString()
+        : null
     return `
       <div class="queue-item">
         <div class="queue-item-info">
@@ -331,6 +720,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
             <span>${item.submission.language}</span>
             <span>${date}</span>
             ${hasError ? `<span class="text-error">Retries: ${item.retryCount}</span>` : ''}
+            ${nextAttempt ? `<span>Next attempt: ${nextAttempt}</span>` : ''}
           </div>
           ${hasError ? `<div class="text-error">${item.lastError}</div>` : ''}
         </div>
@@ -342,6 +732,30 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     `
   }
 
+  private renderDeadLetterItem(item: DeadLetterCommit): string {
+    const failedAt = new Date(item.failedAt).toLocaleString()
+    const reason =
+      item.reason === 'permanent' ? 'Not retryable' : `Gave up after ${item.retryCount} attempts`
+    return `
+      <div class="queue-item">
+        <div class="queue-item-info">
+          <h4>${item.submission.title}</h4>
+          <div class="queue-item-meta">
+            <span>${item.submission.difficulty}</span>
+            <span>${item.submission.language}</span>
+            <span>${failedAt}</span>
+            <span class="text-error">${reason}</span>
+          </div>
+          ${item.lastError ? `<div class="text-error">${item.lastError}</div>` : ''}
+        </div>
+        <div class="queue-item-actions">
+          <button class="btn btn-secondary btn-sm" onclick="optionsPage.retryDeadLetter('${item.id}')">Retry</button>
+          <button class="btn btn-danger btn-sm" onclick="optionsPage.removeDeadLetter('${item.id}')">Remove</button>
+        </div>
+      </div>
+    `
+  }
+
   // ---------- events ----------
 
   private setupEventListeners(): void {
@@ -360,6 +774,14 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
       ?.addEventListener('click', () => this.handleRegenerateToken())
     document.getElementById('clear-token')?.addEventListener('click', () => this.handleClearToken())
 
+    // Device flow
+    document
+      .getElementById('start-device-flow')
+      ?.addEventListener('click', () => this.handleStartDeviceFlow())
+    document
+      .getElementById('cancel-device-flow')
+      ?.addEventListener('click', () => this.handleCancelDeviceFlow())
+
     // PAT flow
     document
       .getElementById('save-validate-pat')
@@ -379,6 +801,9 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     document.getElementById('branch-select')?.addEventListener('change', e => {
       this.handleBranchChange((e.target as HTMLSelectElement).value)
     })
+    document
+      .getElementById('rebuild-index')
+      ?.addEventListener('click', () => this.handleRebuildIndex())
 
     // Templates
     document
@@ -387,21 +812,53 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     document
       .getElementById('reset-templates')
       ?.addEventListener('click', () => this.handleResetTemplates())
-    ;['commit-template', 'readme-template', 'folder-template'].forEach(id => {
+    ;[...TEMPLATE_FIELDS, 'filename-overrides'].forEach(id => {
       document.getElementById(id)?.addEventListener('input', () => this.updateTemplatePreview())
     })
+    document
+      .getElementById('preview-source')
+      ?.addEventListener('change', () => this.updateTemplatePreview())
+    document.getElementById('template-preset')?.addEventListener('change', e => {
+      this.handlePresetChange((e.target as HTMLSelectElement).value)
+    })
+    document.getElementById('fork-preset')?.addEventListener('click', () => this.handleForkPreset())
+    document
+      .getElementById('delete-preset')
+      ?.addEventListener('click', () => this.handleDeletePreset())
+    document
+      .getElementById('export-preset')
+      ?.addEventListener('click', () => this.handleExportPreset())
+    document
+      .getElementById('import-presets')
+      ?.addEventListener('click', () => this.ensureEl('import-presets-file').click())
+    document.getElementById('import-presets-file')?.addEventListener('change', e => {
+      const input = e.target as HTMLInputElement
+      const file = input.files?.[0]
+      input.value = ''
+      if (file) this.handleImportPresets(file)
+    })
 
     // Settings
     document.querySelectorAll<HTMLElement>('[data-setting]').forEach(input => {
       input.addEventListener('change', e => {
         const target = e.target as HTMLInputElement
-        this.handleSettingChange(
-          target.dataset.setting!,
-          target.type === 'checkbox' ? target.checked : !!target.value
-        )
+        this.handleSettingChange(target.dataset.setting!, this.readSettingValue(target))
       })
     })
 
+    // Queue
+    document
+      .getElementById('process-queue')
+      ?.addEventListener('click', () => this.handleProcessQueue())
+
+    // History import
+    document
+      .getElementById('start-import')
+      ?.addEventListener('click', () => this.handleStartImport())
+    document
+      .getElementById('cancel-import')
+      ?.addEventListener('click', () => this.handleCancelImport())
+
     // Onboarding
     document.getElementById('open-onboarding')?.addEventListener('click', e => {
       e.preventDefault()
@@ -472,13 +929,17 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
         this.showToast('No GitHub connection to test', 'warning')
         return
       }
-      const validationResult = await this.githubAuth.validateToken(this.config.github.accessToken)
-      this.showToast(
-        validationResult.valid
-          ? 'Connection test successful!'
-          : `Connection test failed: ${validationResult.error || 'Invalid token'}`,
-        validationResult.valid ? 'success' : 'error'
-      )
+      const report = await this.updateTokenReport()
+      if (!report?.valid) {
+        this.showToast(`Connection test failed: ${report?.error || 'Invalid token'}`, 'error')
+      } else if (!report.ready) {
+        this.showToast(
+          'Connected, but the token is missing permissions. See the Account tab.',
+          'warning'
+        )
+      } else {
+        this.showToast('Connection test successful!', 'success')
+      }
     } catch (error) {
       console.error('Connection test failed:', error)
       this.showToast('Connection test failed', 'error')
@@ -534,6 +995,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
       await storage.setConfig(this.config)
       await this.updateBranchUI(owner, repo)
       this.showToast(`Repository set to ${owner}/${repo}`, 'success')
+      await this.updateTokenReport()
     } catch (error) {
       console.error('Failed to update repository:', error)
       this.showToast('Failed to update repository', 'error')
@@ -541,7 +1003,52 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
   }
 
   private async handleCreateRepository(): Promise<void> {
-    this.showToast('Repository creation not yet implemented', 'warning')
+    if (!this.config?.github) {
+      this.showToast('Connect GitHub first', 'warning')
+      return
+    }
+
+    const nameInput = this.ensureEl<HTMLInputElement>('new-repository')
+    const button = this.ensureEl<HTMLButtonElement>('create-repository')
+    const name = nameInput.value.trim()
+
+    if (!name) {
+      this.showToast('Enter a repository name', 'warning')
+      return
+    }
+
+    button.disabled = true
+    try {
+      const repository = await githubAPI.createRepository(
+        {
+          name,
+          description: 'My LeetCode solutions, synced by LeetShip',
+          private:
+            this.ensureEl<HTMLSelectElement>('new-repository-visibility').value === 'private',
+          license: this.ensureEl<HTMLSelectElement>('new-repository-license').value,
+        },
+        buildRepositoryScaffold(this.config)
+      )
+
+      this.config.github.username = repository.full_name.split('/')[0]
+      this.config.github.repository = repository.name
+      this.config.github.branch = repository.default_branch
+      await storage.setConfig(this.config)
+
+      nameInput.value = ''
+      await this.updateRepositoryUI()
+      this.showToast(`Repository ${repository.full_name} created`, 'success')
+    } catch (error) {
+      console.error('Failed to create repository:', error)
+      this.showToast(
+        error instanceof GitHubAPIError && error.status === 422
+          ? `Could not create "${name}": a repository with that name may already exist`
+          : 'Failed to create repository',
+        'error'
+      )
+    } finally {
+      button.disabled = false
+    }
   }
 
   private async handleBranchChange(branch: string): Promise<void> {
@@ -556,16 +1063,32 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     }
   }
 
+  private async handleRebuildIndex(): Promise<void> {
+    if (!this.config?.github?.repository) {
+      this.showToast('Please configure repository settings first', 'warning')
+      return
+    }
+    try {
+      this.showToast('Rebuilding solutions index...', 'info')
+      const response = await sendMessage({ type: 'REBUILD_SOLUTIONS_INDEX' })
+      if (response?.success) {
+        this.showToast(`Solutions index rebuilt (${response.count} solutions)`, 'success')
+      } else {
+        this.showToast(`Failed to rebuild index: ${response?.error || 'Unknown error'}`, 'error')
+      }
+    } catch (error) {
+      console.error('Failed to rebuild solutions index:', error)
+      this.showToast('Failed to rebuild solutions index', 'error')
+    }
+  }
+
   private async handleSaveTemplates(): Promise<void> {
     if (!this.config) return
-    const commitTemplate = (document.getElementById('commit-template') as HTMLTextAreaElement).value
-    const readmeTemplate = (document.getElementById('readme-template') as HTMLTextAreaElement).value
-    const folderTemplate = (document.getElementById('folder-template') as HTMLInputElement).value
-    this.config.templates = {
-      commitMessage: commitTemplate,
-      readme: readmeTemplate,
-      folderLayout: folderTemplate,
+    if (!this.validateTemplates()) {
+      this.showToast('Fix the template errors before saving', 'error')
+      return
     }
+    this.config.templates = this.readTemplates()
     try {
       await storage.setConfig(this.config)
       this.showToast('Templates saved', 'success')
@@ -577,16 +1100,171 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
 
   private handleResetTemplates(): void {
     if (!confirm('Reset templates to default?')) return
-    // if you have defaults in storage, call them here; for now just refresh UI
-    this.showToast('Templates reset to default', 'success')
-    this.updateTemplateUI()
+    this.fillTemplateFields(getDefaultPreset().templates)
+    this.updatePresetUI(DEFAULT_PRESET_ID)
+    this.updateTemplatePreview()
+    this.showToast('Default templates loaded, save to keep them', 'success')
   }
 
-  private async handleSettingChange(settingKey: string, value: boolean): Promise<void> {
+  private handlePresetChange(id: string): void {
+    if (!this.config) return
+    const preset = findPreset(id, this.config.templates.customPresets)
+    if (!preset) return
+
+    this.fillTemplateFields(preset.templates)
+    this.updatePresetUI(preset.id)
+    this.updateTemplatePreview()
+  }
+
+  private async handleForkPreset(): Promise<void> {
+    if (!this.config) return
+    if (!this.validateTemplates()) {
+      this.showToast('Fix the template errors before forking', 'error')
+      return
+    }
+
+    const current = findPreset(
+      this.ensureEl<HTMLSelectElement>('template-preset').value,
+      this.config.templates.customPresets
+    )
+    const name = prompt('Name of the new preset:', `${current?.name || 'Custom'} (copy)`)?.trim()
+    if (!name) return
+
+    const preset = forkPreset(this.readPresetTemplates(), name)
+    this.config.templates = {
+      ...this.readTemplates(),
+      preset: preset.id,
+      customPresets: [...this.config.templates.customPresets, preset],
+    }
+
+    try {
+      await storage.setConfig(this.config)
+      this.updatePresetUI(preset.id)
+      this.showToast(`Preset "${name}" created`, 'success')
+    } catch (error) {
+      console.error('Failed to save preset:', error)
+      this.showToast('Failed to save preset', 'error')
+    }
+  }
+
+  private async handleDeletePreset(): Promise<void> {
+    if (!this.config) return
+    const id = this.ensureEl<HTMLSelectElement>('template-preset').value
+    const preset = findPreset(id, this.config.templates.customPresets)
+    if (!preset || isBuiltInPreset(id)) return
+    if (!confirm(`Delete the preset "${preset.name}"? The templates below are kept.`)) return
+
+    this.config.templates = {
+      ...this.config.templates,
+      preset:
+        this.config.templates.preset === id ? DEFAULT_PRESET_ID : this.config.templates.preset,
+      customPresets: this.config.templates.customPresets.filter(custom => custom.id !== id),
+    }
+
+    try {
+      await storage.setConfig(this.config)
+      this.updatePresetUI(DEFAULT_PRESET_ID)
+      this.showToast(`Preset "${preset.name}" deleted`, 'success')
+    } catch (error) {
+      console.error('Failed to delete preset:', error)
+      this.showToast('Failed to delete preset', 'error')
+    }
+  }
+
+  private handleExportPreset(): void {
+    if (!this.config) return
+    const preset = findPreset(
+      this.ensureEl<HTMLSelectElement>('template-preset').value,
+      this.config.templates.customPresets
+    )
+    if (!preset) return
+
+    const blob = new Blob([exportPresets([preset])], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    const slug = preset.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+    link.download = `leetship-preset-${slug || 'custom'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  private async handleImportPresets(file: File): Promise<void> {
+    if (!this.config) return
+
+    let presets: TemplatePreset[]
+    try {
+      presets = importPresets(await file.text())
+      presets.forEach(preset => this.checkPresetTemplates(preset))
+    } catch (error) {
+      console.error('Failed to import presets:', error)
+      const message = error instanceof PresetError ? error.message : 'Could not read the file'
+      this.showToast(`Import failed: ${message}`, 'error')
+      return
+    }
+
+    this.config.templates = {
+      ...this.config.templates,
+      customPresets: [...this.config.templates.customPresets, ...presets],
+    }
+
+    try {
+      await storage.setConfig(this.config)
+      this.handlePresetChange(presets[0].id)
+      this.showToast(
+        `Imported ${presets.length} preset${presets.length === 1 ? '' : 's'}, save to use "${presets[0].name}"`,
+        'success'
+      )
+    } catch (error) {
+      console.error('Failed to save imported presets:', error)
+      this.showToast('Failed to save imported presets', 'error')
+    }
+  }
+
+  /** Refuse presets whose templates would fail to render */
+  private checkPresetTemplates(preset: TemplatePreset): void {
+    const { commitMessage, readme, folderLayout, solutionHeader, filename, filenameOverrides } =
+      preset.templates
+
+    for (const template of [
+      commitMessage,
+      readme,
+      folderLayout,
+      solutionHeader,
+      filename,
+      ...Object.values(filenameOverrides),
+    ]) {
+      const [issue] = TemplateEngine.validate(template)
+      if (issue) {
+        throw new PresetError(`Preset "${preset.name}": ${this.formatTemplateIssue(issue)}`)
+      }
+    }
+  }
+
+  private readSettingValue(input: HTMLInputElement): boolean | string | number {
+    if (input.type === 'checkbox') return input.checked
+    if (input.type === 'number') {
+      const min = Number(input.min) || 0
+      const max = Number(input.max) || Infinity
+      const value = Math.min(max, Math.max(min, Number(input.value) || min))
+      input.value = String(value)
+      return value
+    }
+    return input.value
+  }
+
+  private async handleSettingChange(
+    settingKey: string,
+    value: boolean | string | number
+  ): Promise<void> {
     if (!this.config) return
     const camelKey = this.camelCase(settingKey)
     if (camelKey in this.config.settings) {
       ;(this.config.settings as any)[camelKey] = value
+      this.updateTemplatePreview()
       try {
         await storage.setConfig(this.config)
         this.showToast(`Setting updated: ${settingKey}`, 'success')
@@ -607,6 +1285,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
         break
       case 'queue':
         await this.updateQueueUI()
+        await this.updateImportUI()
         break
       default:
         break
@@ -658,6 +1337,73 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
     }
   }
 
+  private async handleStartImport(): Promise<void> {
+    try {
+      const response = await sendMessage({ type: 'START_IMPORT' })
+      if (response?.success) {
+        this.showToast('Importing LeetCode history...', 'info')
+      } else {
+        this.showToast(`Failed to start import: ${response?.error || 'Unknown error'}`, 'error')
+      }
+      await this.updateImportUI()
+    } catch (error) {
+      console.error('Failed to start import:', error)
+      this.showToast('Failed to start import', 'error')
+    }
+  }
+
+  private async handleCancelImport(): Promise<void> {
+    try {
+      await sendMessage({ type: 'CANCEL_IMPORT' })
+      await this.updateImportUI()
+      this.showToast('Import cancelled', 'success')
+    } catch (error) {
+      console.error('Failed to cancel import:', error)
+      this.showToast('Failed to cancel import', 'error')
+    }
+  }
+
+  private async handleProcessQueue(): Promise<void> {
+    try {
+      this.showToast('Processing queue...', 'info')
+      const response = await sendMessage({ type: 'PROCESS_QUEUE' })
+      if (response?.error) throw new Error(response.error)
+      await this.updateQueueUI()
+      this.showToast(`Committed ${response?.committed ?? 0} queued solution(s)`, 'success')
+    } catch (error) {
+      console.error('Failed to process queue:', error)
+      this.showToast('Failed to process queue', 'error')
+    }
+  }
+
+  // ---------- device flow ----------
+
+  private async handleStartDeviceFlow(): Promise<void> {
+    try {
+      const response = await sendMessage({ type: 'START_DEVICE_FLOW' })
+      if (!response?.success || !response.state) {
+        throw new Error(response?.error || 'Unknown error')
+      }
+
+      await this.updateDeviceFlowUI()
+    } catch (error) {
+      console.error('Failed to start GitHub sign-in:', error)
+      this.showToast(
+        'Sign-in failed: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        'error'
+      )
+    }
+  }
+
+  private async handleCancelDeviceFlow(): Promise<void> {
+    try {
+      await sendMessage({ type: 'CANCEL_DEVICE_FLOW' })
+      await this.updateDeviceFlowUI()
+    } catch (error) {
+      console.error('Failed to cancel GitHub sign-in:', error)
+    }
+  }
+
   // ---------- PAT flow ----------
 
   private async handleSaveValidatePAT(): Promise<void> {
@@ -675,7 +1421,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
       if (!repository) return this.showToast('Please enter the repository name', 'error')
 
       // IMPORTANT: match the background service worker contract
-      const response = await this.browser.runtime.sendMessage({
+      const response = await sendMessage({
         type: 'AUTH_WITH_PAT',
         payload: {
           token,
@@ -722,7 +1468,7 @@ ${TemplateEngine.render(readmeTemplate, variables).substring(0, 300)}...`
 
       this.showToast('Creating test commit...', 'info')
 
-      const response = await this.browser.runtime.sendMessage({
+      const response = await sendMessage({
         type: 'UPSERT_FILE',
         payload: {
           path: 'CommitTest.md',
@@ -768,8 +1514,12 @@ If you see this file, the GitHub integration is working correctly! 🎉
 
   public async retryCommit(commitId: string): Promise<void> {
     try {
-      await storage.updateCommitInQueue(commitId, { retryCount: 0, lastError: undefined })
-      await this.browser.runtime.sendMessage({ type: 'PROCESS_QUEUE' })
+      await storage.updateCommitInQueue(commitId, {
+        retryCount: 0,
+        lastError: undefined,
+        nextAttemptAt: undefined,
+      })
+      await sendMessage({ type: 'PROCESS_QUEUE' })
       await this.updateQueueUI()
       this.showToast('Retrying commit...', 'info')
     } catch (error) {
@@ -789,6 +1539,30 @@ If you see this file, the GitHub integration is working correctly! 🎉
     }
   }
 
+  public async retryDeadLetter(commitId: string): Promise<void> {
+    try {
+      await storage.requeueDeadLetter(commitId)
+      await this.updateQueueUI()
+      this.showToast('Retrying commit...', 'info')
+      await sendMessage({ type: 'PROCESS_QUEUE' })
+      await this.updateQueueUI()
+    } catch (error) {
+      console.error('Failed to retry commit:', error)
+      this.showToast('Failed to retry commit', 'error')
+    }
+  }
+
+  public async removeDeadLetter(commitId: string): Promise<void> {
+    try {
+      await storage.removeFromDeadLetters(commitId)
+      await this.updateDeadLetterUI()
+      this.showToast('Removed failed commit', 'success')
+    } catch (error) {
+      console.error('Failed to remove failed commit:', error)
+      this.showToast('Failed to remove failed commit', 'error')
+    }
+  }
+
   // ---------- utils ----------
 
   private showToast(
@@ -0,0 +1,158 @@
+import { LastSubmission } from '../lib/types'
+
+/**
+ * Sample problems for the template preview on the options page. They cover
+ * every difficulty, a few languages and submissions with and without
+ * percentiles so conditionals in a template can be checked.
+ */
+
+export interface PreviewSample {
+  key: string
+  label: string
+  data: Omit<LastSubmission, 'savedAt'>
+}
+
+export const PREVIEW_SAMPLES: PreviewSample[] = [
+  {
+    key: 'two-sum',
+    label: 'Two Sum (Easy, Python)',
+    data: {
+      submission: {
+        id: '1',
+        title: 'Two Sum',
+        titleSlug: 'two-sum',
+        difficulty: 'Easy',
+        tags: ['Array', 'Hash Table'],
+        link: 'https://leetcode.com/problems/two-sum/',
+        runtime: '52 ms',
+        memory: '15.3 MB',
+        language: 'python3',
+        timestamp: '2024-03-14T09:26:53.000Z',
+        status: 'Accepted',
+        runtimePercentile: '85.4',
+        memoryPercentile: '92.1',
+        code: `class Solution:
+    def twoSum(self, nums: List[int], target: int) -> List[int]:
+        seen = {}
+        for i, num in enumerate(nums):
+            if target - num in seen:
+                return [seen[target - num], i]
+            seen[num] = i
+        return []
+`,
+      },
+      problem: {
+        id: '1',
+        title: 'Two Sum',
+        titleSlug: 'two-sum',
+        difficulty: 'Easy',
+        tags: ['Array', 'Hash Table'],
+        link: 'https://leetcode.com/problems/two-sum/',
+        content: `<p>Given an array of integers <code>nums</code>&nbsp;and an integer <code>target</code>, return <em>indices of the two numbers such that they add up to <code>target</code></em>.</p>
+<p>You may assume that each input would have <strong><em>exactly</em> one solution</strong>, and you may not use the <em>same</em> element twice.</p>`,
+      },
+    },
+  },
+  {
+    key: 'lru-cache',
+    label: 'LRU Cache (Medium, TypeScript)',
+    data: {
+      submission: {
+        id: '146',
+        title: 'LRU Cache',
+        titleSlug: 'lru-cache',
+        difficulty: 'Medium',
+        tags: ['Hash Table', 'Linked List', 'Design'],
+        link: 'https://leetcode.com/problems/lru-cache/',
+        runtime: '96 ms',
+        memory: '104.2 MB',
+        language: 'typescript',
+        timestamp: '2024-05-02T18:04:11.000Z',
+        status: 'Accepted',
+        code: `class LRUCache {
+  private cache = new Map<number, number>()
+
+  constructor(private capacity: number) {}
+
+  get(key: number): number {
+    if (!this.cache.has(key)) return -1
+    const value = this.cache.get(key)!
+    this.cache.delete(key)
+    this.cache.set(key, value)
+    return value
+  }
+
+  put(key: number, value: number): void {
+    this.cache.delete(key)
+    this.cache.set(key, value)
+    if (this.cache.size > this.capacity) {
+      this.cache.delete(this.cache.keys().next().value!)
+    }
+  }
+}
+`,
+      },
+      problem: {
+        id: '146',
+        title: 'LRU Cache',
+        titleSlug: 'lru-cache',
+        difficulty: 'Medium',
+        tags: ['Hash Table', 'Linked List', 'Design'],
+        link: 'https://leetcode.com/problems/lru-cache/',
+        content: `<p>Design a data structure that follows the constraints of a <strong><a href="https://en.wikipedia.org/wiki/Cache_replacement_policies#LRU">Least Recently Used (LRU) cache</a></strong>.</p>
+<p>The functions <code>get</code> and <code>put</code> must each run in <code>O(1)</code> average time complexity.</p>`,
+      },
+    },
+  },
+  {
+    key: 'median-of-two-sorted-arrays',
+    label: 'Median of Two Sorted Arrays (Hard, C++)',
+    data: {
+      submission: {
+        id: '4',
+        title: 'Median of Two Sorted Arrays',
+        titleSlug: 'median-of-two-sorted-arrays',
+        difficulty: 'Hard',
+        tags: ['Array', 'Binary Search', 'Divide and Conquer'],
+        link: 'https://leetcode.com/problems/median-of-two-sorted-arrays/',
+        runtime: '20 ms',
+        memory: '95.1 MB',
+        language: 'cpp',
+        timestamp: '2024-07-21T07:45:30.000Z',
+        status: 'Accepted',
+        runtimePercentile: '71.8',
+        memoryPercentile: '38.5',
+        code: `class Solution {
+public:
+    double findMedianSortedArrays(vector<int>& a, vector<int>& b) {
+        if (a.size() > b.size()) return findMedianSortedArrays(b, a);
+        int m = a.size(), n = b.size(), lo = 0, hi = m;
+        while (lo <= hi) {
+            int i = (lo + hi) / 2, j = (m + n + 1) / 2 - i;
+            int left1 = i == 0 ? INT_MIN : a[i - 1], right1 = i == m ? INT_MAX : a[i];
+            int left2 = j == 0 ? INT_MIN : b[j - 1], right2 = j == n ? INT_MAX : b[j];
+            if (left1 <= right2 && left2 <= right1) {
+                if ((m + n) % 2) return max(left1, left2);
+                return (max(left1, left2) + min(right1, right2)) / 2.0;
+            }
+            if (left1 > right2) hi = i - 1;
+            else lo = i + 1;
+        }
+        return 0;
+    }
+};
+`,
+      },
+      problem: {
+        id: '4',
+        title: 'Median of Two Sorted Arrays',
+        titleSlug: 'median-of-two-sorted-arrays',
+        difficulty: 'Hard',
+        tags: ['Array', 'Binary Search', 'Divide and Conquer'],
+        link: 'https://leetcode.com/problems/median-of-two-sorted-arrays/',
+        content: `<p>Given two sorted arrays <code>nums1</code> and <code>nums2</code> of size <code>m</code> and <code>n</code> respectively, return <strong>the median</strong> of the two sorted arrays.</p>
+<p>The overall run time complexity should be <code>O(log (m+n))</code>.</p>`,
+      },
+    },
+  },
+]
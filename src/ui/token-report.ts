@@ -0,0 +1,80 @@
+import {
+  TOKEN_SETTINGS_URLS,
+  TokenCapability,
+  TokenCapabilityReport,
+  TokenKind,
+} from '../lib/auth/token-capabilities'
+
+/** Token capability report markup shared by the onboarding and options pages */
+
+const KIND_LABELS: Record<TokenKind, string> = {
+  classic: 'Classic personal access token',
+  'fine-grained': 'Fine-grained personal access token',
+  oauth: 'GitHub sign-in',
+  unknown: 'GitHub token',
+}
+
+const STATUS_ICONS: Record<TokenCapability['status'], string> = {
+  granted: '✅',
+  missing: '❌',
+  unknown: '❔',
+}
+
+export function renderTokenReport(report: TokenCapabilityReport): string {
+  if (!report.valid) {
+    return `<div class="token-report"><div class="token-report-warning">❌ ${escapeHtml(
+      report.error || 'Token is invalid'
+    )}</div></div>`
+  }
+
+  const summary = [
+    KIND_LABELS[report.kind],
+    report.login ? `@${report.login}` : '',
+    report.scopes ? `scopes: ${report.scopes.join(', ') || 'none'}` : '',
+    report.expiresAt ? `expires ${new Date(report.expiresAt).toLocaleDateString()}` : '',
+  ].filter(Boolean)
+
+  const settingsLink = `<a href="${TOKEN_SETTINGS_URLS[report.kind]}" target="_blank" rel="noopener noreferrer">token settings</a>`
+
+  return `
+    <div class="token-report">
+      <div class="token-report-summary">${escapeHtml(summary.join(' · '))}</div>
+      ${report.expiresSoon ? `<div class="token-report-warning">⚠️ ${describeExpiry(report.expiresAt!)} Regenerate it in your ${settingsLink} and save the new token here before it stops working.</div>` : ''}
+      ${
+        report.capabilities.length > 0
+          ? `<ul class="token-report-list">${report.capabilities.map(renderCapability).join('')}</ul>`
+          : ''
+      }
+      ${
+        report.capabilities.some(capability => capability.status !== 'granted')
+          ? `<div class="token-report-footer">Change the token in your ${settingsLink}, then check it again.</div>`
+          : ''
+      }
+    </div>
+  `
+}
+
+function renderCapability(capability: TokenCapability): string {
+  return `
+    <li class="token-capability ${capability.status}">
+      <span>${STATUS_ICONS[capability.status]} ${escapeHtml(capability.label)}${
+        capability.required ? '' : ' <em>(optional)</em>'
+      }</span>
+      ${capability.help ? `<small>${escapeHtml(capability.help)}</small>` : ''}
+    </li>
+  `
+}
+
+function describeExpiry(expiresAt: number): string {
+  const days = Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000))
+  if (days <= 0) return 'This token has expired.'
+  return days === 1 ? 'This token expires within a day.' : `This token expires in ${days} days.`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
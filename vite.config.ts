@@ -1,22 +1,76 @@
-import { defineConfig } from 'vite'
+import { build, defineConfig, Plugin, UserConfig } from 'vite'
 import { resolve } from 'path'
 
+const sharedConfig: UserConfig = {
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, 'src'),
+    },
+  },
+}
+
+const minifyOptions: UserConfig['build'] = {
+  minify: 'terser',
+  terserOptions: {
+    compress: {
+      drop_console: true, // Remove any remaining console statements
+      drop_debugger: true,
+      pure_funcs: ['console.log', 'console.warn'], // Remove specific functions
+    },
+  },
+}
+
+/**
+ * Content scripts run as classic scripts and cannot import the chunks rollup
+ * shares between entries, so the content script is bundled on its own as a
+ * self-contained IIFE once the main build has been written.
+ */
+function contentScriptBuild(): Plugin {
+  let mode = 'production'
+
+  return {
+    name: 'leetship-content-script',
+    apply: 'build',
+    configResolved(config) {
+      mode = config.mode
+    },
+    buildStart() {
+      // Not part of the main graph, so watch mode would miss its changes
+      this.addWatchFile(resolve(__dirname, 'src/content/leetcode.ts'))
+    },
+    async closeBundle() {
+      await build({
+        ...sharedConfig,
+        configFile: false,
+        mode,
+        build: {
+          ...minifyOptions,
+          outDir: 'dist',
+          emptyOutDir: false,
+          copyPublicDir: false,
+          rollupOptions: {
+            input: resolve(__dirname, 'src/content/leetcode.ts'),
+            output: {
+              format: 'iife',
+              inlineDynamicImports: true,
+              entryFileNames: 'content/leetcode.js',
+            },
+          },
+        },
+      })
+    },
+  }
+}
+
 export default defineConfig({
+  ...sharedConfig,
+  plugins: [contentScriptBuild()],
   build: {
+    ...minifyOptions,
     outDir: 'dist',
-    minify: 'terser',
-    terserOptions: {
-      compress: {
-        drop_console: true, // Remove any remaining console statements
-        drop_debugger: true,
-        pure_funcs: ['console.log', 'console.warn'], // Remove specific functions
-      },
-    },
     rollupOptions: {
       input: {
         background: resolve(__dirname, 'src/background/service-worker.ts'),
-        content: resolve(__dirname, 'src/content/leetcode.ts'),
-        injected: resolve(__dirname, 'src/injected/inject.js'),
         options: resolve(__dirname, 'src/ui/options.ts'),
         onboarding: resolve(__dirname, 'src/ui/onboarding.ts'),
       },
@@ -24,8 +78,6 @@ export default defineConfig({
       output: {
         entryFileNames: chunk => {
           if (chunk.name === 'background') return 'background/service-worker.js'
-          if (chunk.name === 'content') return 'content/leetcode.js'
-          if (chunk.name === 'injected') return 'injected/inject.js'
           return '[name].js'
         },
         chunkFileNames: 'chunks/[name]-[hash].js',
@@ -38,9 +90,4 @@ export default defineConfig({
     },
     copyPublicDir: false,
   },
-  resolve: {
-    alias: {
-      '@': resolve(__dirname, 'src'),
-    },
-  },
 })